@@ -1,186 +1,79 @@
-
-import React, { useEffect, useRef, useState } from 'react';
-import { SceneManager } from './logic/SceneManager';
-import { GameConfig, DEFAULT_ROWS, DEFAULT_COLS, AppMode, TetrisEventType, MusicSyncParams } from './types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TetrisController } from './logic/TetrisController';
+import { GameConfig, AppMode, PresetStorage, TetrisGlobalAPI } from './types';
 import { Controls } from './components/Controls';
-import { PresetManager } from './logic/PresetManager';
-
-// --- CONFIGURATION RANGES ---
-// Modify these values to constrain the music sync logic
-const RANGES = {
-  FLOW_SPEED: [1, 4],     // Controlled by 'density'
-  TEMPERATURE: [0, 1],    // Controlled by 'brightness'
-  BPM: [60, 600]          // Controlled by 'expectedDuration'
-};
-
-// Coefficient for estimating BPM based on duration.
-// Formula: BPM = (Rows * Cols * COEFF) / DurationSeconds
-// Increase this if the game finishes too slowly. Decrease if it finishes too fast.
-const BPM_FILL_COEFFICIENT = 40; 
+import { PresetManager, createPresetManager, readSharedPreset, resolvePreset } from './logic/PresetManager';
+import { DEFAULT_CONFIG } from './logic/ConfigSchema';
+import { getStyleNames } from './logic/FlowShader';
 
 interface AppProps {
   initialConfigOverride?: Partial<GameConfig>;
   sdkMode?: boolean;
+  presetStorage?: PresetStorage; // Default: localStorage
+  // Receives this board's control API once it has mounted, and null on unmount.
+  // The SDK hands it to the instance handle (and to window.TetrisFlow for init()).
+  onApi?: (api: TetrisGlobalAPI | null) => void;
 }
 
-const App: React.FC<AppProps> = ({ initialConfigOverride, sdkMode = false }) => {
+// The board with its debug panel. The board itself (config, scene, API) is a
+// TetrisController; this component mirrors its state for the panel.
+const App: React.FC<AppProps> = ({ initialConfigOverride, sdkMode = false, presetStorage, onApi }) => {
+  const presetManager = useMemo(() => presetStorage ? createPresetManager(presetStorage) : PresetManager, [presetStorage]);
   const containerRef = useRef<HTMLDivElement>(null);
-  const sceneManagerRef = useRef<SceneManager | null>(null);
-  
-  // Event Listeners Storage: { 'reset': [cb1, cb2], 'lineClear': [] }
-  const eventListenersRef = useRef<Record<string, (() => void)[]>>({});
+  const controllerRef = useRef<TetrisController | null>(null);
 
   // If in SDK mode, default to 'live', otherwise 'debug'
   const [mode, setMode] = useState<AppMode>(sdkMode ? 'live' : 'debug');
+  // Built-in plus registered visual styles, for the Controls panel
+  const [visualStyles, setVisualStyles] = useState<string[]>(getStyleNames);
 
   const [config, setConfig] = useState<GameConfig>({
-    // --- USER REQUESTED PRESETS ---
-    bpm: 60,
-    temperature: 0.36,
-    bloomStrength: 0.9,
-    opacity: 0.15,
-    gridVisible: true,
-    fogDensity: 0,
-    gridRows: 18,
-    gridCols: 20,
-    minLinesToClear: 1,
-    enableLineClear: false,
-    cameraMode: "manual",
-    rotationSpeed: 0.5,
-    cameraX: 0,
-    cameraY: 10,
-    cameraZ: 22,
-    visualStyle: "matrix",
-    flowSpeed: 3.5,
-    customGrid: [],
-    blockRoughness: 0.1,
-    blockMetalness: 0.5,
-    blockTransmission: 0.2,
-    blockThickness: 1,
-    environmentDimming: 0,
-
+    ...DEFAULT_CONFIG,
     // Apply overrides if any
     ...initialConfigOverride
   });
 
-  // Check URL params for mode on mount (overrides everything)
   useEffect(() => {
+    if (!containerRef.current) return;
+
+    const controller = new TetrisController(containerRef.current, { config, presets: presetManager, mode });
+    controllerRef.current = controller;
+    controller.onConfigChange = setConfig;
+    controller.onModeChange = setMode;
+    controller.onStylesChange = setVisualStyles;
+
+    // Check URL params for mode on mount (overrides everything)
     const params = new URLSearchParams(window.location.search);
     const urlMode = params.get('mode');
-    if (urlMode === 'live') {
-      setMode('live');
-    } else if (urlMode === 'debug') {
-      setMode('debug');
+    if (urlMode === 'live' || urlMode === 'debug') {
+      controller.api.setMode(urlMode);
     }
-  }, []);
-
-  // Expose Global API for external control (OBS, Stream Deck, Console)
-  useEffect(() => {
-    window.TetrisFlow = {
-      set: (key: keyof GameConfig, value: any) => {
-        setConfig(prev => ({ ...prev, [key]: value }));
-      },
-      setMode: (m: AppMode) => {
-        setMode(m);
-      },
-      loadPreset: (name: string) => {
-        const p = PresetManager.load(name);
-        if (p) setConfig(p);
-      },
-      getPresets: () => PresetManager.list(),
-      bulkUpdate: (updates: Partial<GameConfig>) => {
-        setConfig(prev => ({ ...prev, ...updates }));
-      },
-      toggle: (key: keyof GameConfig) => {
-        setConfig(prev => ({ ...prev, [key]: !prev[key as keyof GameConfig] }));
-      },
-      
-      // --- MUSIC SYNC INTERFACE ---
-      syncMusic: (params: MusicSyncParams) => {
-        const { density, brightness, expectedDuration } = params;
-
-        // 1. Map Density -> Flow Speed
-        // Clamp density 0-1
-        const d = Math.max(0, Math.min(1, density));
-        const newFlowSpeed = RANGES.FLOW_SPEED[0] + d * (RANGES.FLOW_SPEED[1] - RANGES.FLOW_SPEED[0]);
-
-        // 2. Map Brightness -> Temperature
-        // Clamp brightness 0-1
-        const b = Math.max(0, Math.min(1, brightness));
-        const newTemp = RANGES.TEMPERATURE[0] + b * (RANGES.TEMPERATURE[1] - RANGES.TEMPERATURE[0]);
-
-        // 3. Map Duration -> BPM
-        // Estimate: To fill a board of Size (Rows * Cols), we need a certain speed.
-        // If duration is 0 or missing, default to current BPM or mid range.
-        let newBpm = 60;
-        if (expectedDuration && expectedDuration > 0) {
-           // Heuristic formula
-           const totalSlots = config.gridRows * config.gridCols;
-           const calculatedBpm = (totalSlots * BPM_FILL_COEFFICIENT) / expectedDuration;
-           newBpm = Math.max(RANGES.BPM[0], Math.min(RANGES.BPM[1], calculatedBpm));
-        } else {
-           newBpm = config.bpm;
-        }
-
-        setConfig(prev => ({
-          ...prev,
-          flowSpeed: parseFloat(newFlowSpeed.toFixed(2)),
-          temperature: parseFloat(newTemp.toFixed(2)),
-          bpm: Math.floor(newBpm)
-        }));
-      },
-
-      on: (event: TetrisEventType, callback: () => void) => {
-        if (!eventListenersRef.current[event]) {
-          eventListenersRef.current[event] = [];
-        }
-        eventListenersRef.current[event].push(callback);
-      },
-      off: (event: TetrisEventType, callback: () => void) => {
-        if (eventListenersRef.current[event]) {
-           eventListenersRef.current[event] = eventListenersRef.current[event].filter(cb => cb !== callback);
-        }
-      }
-    };
 
-    // Cleanup on unmount
-    return () => {
-    };
-  }, [config.gridRows, config.gridCols, config.bpm]); // Re-bind if dimensions change to keep calc accurate
-
-  // Internal handler called by SceneManager
-  const handleSceneEvent = (type: TetrisEventType) => {
-     const listeners = eventListenersRef.current[type];
-     if (listeners) {
-       listeners.forEach(cb => cb());
-     }
-  };
-
-  useEffect(() => {
-    if (!containerRef.current) return;
+    // A share link (see getPresetShareUrl)
+    try {
+      const shared = readSharedPreset(window.location.search);
+      if (shared) controller.setConfig(prev => resolvePreset(shared, prev));
+    } catch (e) {
+      console.error("Failed to read shared preset", e);
+    }
 
-    // Initialize 3D Scene, passing the event handler
-    const sceneManager = new SceneManager(containerRef.current, config, handleSceneEvent);
-    sceneManagerRef.current = sceneManager;
-    
-    // Start Render Loop
-    sceneManager.render();
+    // Expose the API for external control (OBS, Stream Deck, Console)
+    onApi?.(controller.api);
 
     return () => {
-      sceneManager.dispose();
+      onApi?.(null);
+      controllerRef.current = null;
+      controller.dispose();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Only run once on mount
 
-  // Sync config updates
-  useEffect(() => {
-    if (sceneManagerRef.current) {
-      sceneManagerRef.current.updateConfig(config);
-    }
-  }, [config]);
+  const handleConfigChange = (key: keyof GameConfig, value: GameConfig[keyof GameConfig]) => {
+    controllerRef.current?.setConfig(prev => ({ ...prev, [key]: value }));
+  };
 
-  const handleConfigChange = (key: keyof GameConfig, value: number | boolean | string) => {
-    setConfig(prev => ({ ...prev, [key]: value }));
+  const handleLoadConfig = (newConfig: GameConfig) => {
+    controllerRef.current?.setConfig(() => newConfig);
   };
 
   return (
@@ -199,7 +92,10 @@ const App: React.FC<AppProps> = ({ initialConfigOverride, sdkMode = false }) =>
         <Controls 
           config={config} 
           onChange={handleConfigChange} 
-          onLoadConfig={setConfig}
+          onLoadConfig={handleLoadConfig}
+          visualStyles={visualStyles}
+          presetManager={presetManager}
+          onTap={() => controllerRef.current?.api.tap()}
         />
       )}
 
@@ -1,69 +1,148 @@
 
 import React, { useState, useEffect } from 'react';
-import { GameConfig } from '../types';
-import { Settings, Minimize2, Video, Grid, Palette, Zap, Save, Trash2, FolderOpen } from 'lucide-react';
-import { PresetManager } from '../logic/PresetManager';
+import { AIStrategyName, AIWeights, BeatDivision, GameConfig } from '../types';
+import { Settings, Minimize2, Video, Grid, Palette, Zap, Save, Trash2, FolderOpen, Download, Upload, Link, Copy } from 'lucide-react';
+import { PresetManagerInstance, createPreset, downloadPreset, getShareUrl, resolvePreset } from '../logic/PresetManager';
+import { FACTORY_PRESETS, FactoryPreset, getPresetThumbnail } from '../logic/FactoryPresets';
+import { getDefaultWeights } from '../logic/AIStrategies';
+import { buildCameraPath, getCameraPathNames } from '../logic/CameraRig';
+
+// Factory presets never change, so their thumbnails are drawn once
+const FACTORY_THUMBNAILS = new Map(FACTORY_PRESETS.map(preset => [preset.name, getPresetThumbnail(preset.config)]));
 
 interface ControlsProps {
   config: GameConfig;
-  onChange: (key: keyof GameConfig, value: number | boolean | string) => void;
+  onChange: (key: keyof GameConfig, value: GameConfig[keyof GameConfig]) => void;
   onLoadConfig: (newConfig: GameConfig) => void;
+  visualStyles: string[]; // Built-in and registered, in display order
+  presetManager: PresetManagerInstance; // Backed by the SDK's preset storage
+  onTap: () => void; // Tap tempo on this board
 }
 
-export const Controls: React.FC<ControlsProps> = ({ config, onChange, onLoadConfig }) => {
+export const Controls: React.FC<ControlsProps> = ({ config, onChange, onLoadConfig, visualStyles, presetManager, onTap }) => {
   const [minimized, setMinimized] = useState(false);
   const [activeTab, setActiveTab] = useState<'layout' | 'camera' | 'visuals' | 'presets'>('layout');
   
   // Preset State
   const [presetName, setPresetName] = useState('');
   const [savedPresets, setSavedPresets] = useState<string[]>([]);
+  const [presetMessage, setPresetMessage] = useState('');
 
   useEffect(() => {
     refreshPresets();
-  }, []);
+  }, [presetManager]);
 
-  const refreshPresets = () => {
-    setSavedPresets(PresetManager.list());
+  const refreshPresets = async () => {
+    setSavedPresets(await presetManager.list());
   };
 
-  const handleSavePreset = () => {
+  const handleSavePreset = async () => {
     if (!presetName.trim()) return;
-    PresetManager.save(presetName, config);
-    setPresetName('');
-    refreshPresets();
+    try {
+      await presetManager.save(presetName, config);
+      setPresetName('');
+      setPresetMessage(`Saved "${presetName}"`);
+      refreshPresets();
+    } catch (err) {
+      // Keep the name typed in so it can be retried
+      setPresetMessage(`Save failed: ${err instanceof Error ? err.message : err}`);
+    }
   };
 
-  const handleLoadPreset = (name: string) => {
-    const loaded = PresetManager.load(name);
+  const handleLoadPreset = async (name: string) => {
+    const loaded = await presetManager.load(name);
     if (loaded) {
-      onLoadConfig(loaded);
+      onLoadConfig(resolvePreset(loaded, config));
+    }
+  };
+
+  // The factory version, even if a saved preset shadows its name
+  const handleLoadFactoryPreset = (preset: FactoryPreset) => {
+    onLoadConfig(resolvePreset(createPreset(preset.config), config));
+  };
+
+  const handleCloneFactoryPreset = async (preset: FactoryPreset) => {
+    let name = `${preset.name} copy`;
+    for (let i = 2; savedPresets.includes(name); i++) name = `${preset.name} copy ${i}`;
+    try {
+      await presetManager.save(name, preset.config);
+      setPresetMessage(`Saved a copy as "${name}"`);
+      refreshPresets();
+    } catch (err) {
+      setPresetMessage(`Copy failed: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const handleDownloadPreset = async (name: string) => {
+    const preset = await presetManager.load(name);
+    if (preset) downloadPreset({ ...preset, name }, `${name}.json`);
+  };
+
+  const handleSharePreset = async (name: string) => {
+    const preset = await presetManager.load(name);
+    if (!preset) return;
+    const url = getShareUrl(preset);
+    try {
+      await navigator.clipboard.writeText(url);
+      setPresetMessage(`Link to "${name}" copied`);
+    } catch (e) {
+      // Clipboard access can be refused (e.g. inside an iframe): show the link instead
+      window.prompt('Share link', url);
     }
   };
 
-  const handleDeletePreset = (name: string) => {
-    if (confirm(`Delete preset "${name}"?`)) {
-      PresetManager.delete(name);
+  const handleImportPreset = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Picking the same file again should import it again
+    if (!file) return;
+    try {
+      const name = await presetManager.import(await file.text(), file.name.replace(/\.json$/i, ''));
+      setPresetMessage(`Imported "${name}"`);
       refreshPresets();
+    } catch (err) {
+      setPresetMessage(`Import failed: ${err instanceof Error ? err.message : err}`);
     }
   };
 
-  const setPreset = (preset: 'front' | 'iso' | 'top') => {
-    onChange('cameraMode', 'manual');
-    if (preset === 'front') {
-      onChange('cameraX', 0);
-      onChange('cameraY', 10); // Fixed center height
-      onChange('cameraZ', Math.max(config.gridRows * 1.5, 30));
-    } else if (preset === 'iso') {
-      onChange('cameraX', 20);
-      onChange('cameraY', 25);
-      onChange('cameraZ', 30);
-    } else if (preset === 'top') {
-      onChange('cameraX', 0);
-      onChange('cameraY', 45);
-      onChange('cameraZ', 5);
+  const handleDeletePreset = async (name: string) => {
+    if (!confirm(`Delete preset "${name}"?`)) return;
+    try {
+      await presetManager.delete(name);
+      refreshPresets();
+    } catch (err) {
+      setPresetMessage(`Delete failed: ${err instanceof Error ? err.message : err}`);
     }
   };
 
+  const BEAT_DIVISIONS: { value: BeatDivision; label: string }[] = [
+    { value: 'bar', label: 'Bar' },
+    { value: 'beat', label: '1/4' },
+    { value: 'eighth', label: '1/8' },
+    { value: 'sixteenth', label: '1/16' }
+  ];
+
+  const AI_STRATEGY_OPTIONS: { value: AIStrategyName; label: string }[] = [
+    { value: 'greedy', label: 'Greedy' },
+    { value: 'lookahead', label: 'Lookahead' },
+    { value: 'dellacherie', label: 'Dellacherie' },
+    { value: 'chaotic', label: 'Human' },
+    { value: 'picture', label: 'Picture' }
+  ];
+
+  // Effective AI weights: the strategy's defaults under the config's overrides.
+  // Only the features the strategy actually uses get a slider.
+  const defaultWeights = getDefaultWeights(config.aiStrategy, config.enableLineClear);
+  const weightOverrides = config.aiWeights ?? {}; // Older presets predate AI weights
+  const aiWeights: AIWeights = { ...defaultWeights, ...weightOverrides };
+  const weightKeys = (Object.keys(defaultWeights) as (keyof AIWeights)[])
+    .filter(key => defaultWeights[key] !== 0 || weightOverrides[key] !== undefined);
+
+  // Built-in paths are sized to the board when picked, then saved with the config like any path
+  const setCameraPath = (name: string) => {
+    onChange('cameraPath', buildCameraPath(name, config.gridRows, config.gridCols));
+    onChange('cameraMode', 'path');
+  };
+
   if (minimized) {
     return (
       <div className="absolute top-4 right-4 z-50">
@@ -152,6 +231,34 @@ export const Controls: React.FC<ControlsProps> = ({ config, onChange, onLoadConf
                 </label>
             </div>
 
+            {config.targetImage?.length > 0 && (
+                <div className="bg-white/5 p-3 rounded border border-yellow-500/30 space-y-2">
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <span className="text-xs font-bold text-yellow-200 uppercase block">Building Picture</span>
+                            <span className="text-[10px] text-gray-400 block">Line clears are off until the image is cleared</span>
+                        </div>
+                        <button
+                            onClick={() => onChange('targetImage', [])}
+                            className="px-2 py-1 text-[10px] uppercase border border-white/10 rounded text-gray-400 hover:bg-white/5"
+                        >
+                            Clear
+                        </button>
+                    </div>
+                    <div className="flex space-x-1">
+                        {(['celebrate', 'reset'] as const).map(action => (
+                            <button
+                                key={action}
+                                onClick={() => onChange('targetCompleteAction', action)}
+                                className={`flex-1 py-1 text-[10px] uppercase border border-white/10 rounded font-bold ${config.targetCompleteAction === action ? 'bg-yellow-900/60 text-yellow-200 border-yellow-500' : 'text-gray-500 hover:bg-white/5'}`}
+                            >
+                                {action === 'celebrate' ? 'Celebrate When Done' : 'Reset When Done'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {config.enableLineClear && (
                  <div className="space-y-2 opacity-80 pl-2 border-l-2 border-purple-500/30">
                   <div className="flex justify-between text-xs uppercase text-green-300">
@@ -167,6 +274,121 @@ export const Controls: React.FC<ControlsProps> = ({ config, onChange, onLoadConf
                 </div>
             )}
 
+            <div className="bg-white/5 p-3 rounded border border-white/5">
+                <div className="flex items-center justify-between">
+                    <label className="flex items-center space-x-3 cursor-pointer">
+                        <input 
+                            type="checkbox" 
+                            checked={config.beatSync} 
+                            onChange={(e) => onChange('beatSync', e.target.checked)}
+                            className="form-checkbox h-4 w-4 text-pink-500 rounded focus:ring-pink-500 bg-gray-700 border-gray-600"
+                        />
+                        <div>
+                            <span className="text-xs font-bold text-white uppercase block">Beat Sync</span>
+                            <span className="text-[10px] text-gray-400 block">
+                                {config.beatSync ? "Moves land on the beat grid" : "Free-running timing"}
+                            </span>
+                        </div>
+                    </label>
+                    <button
+                        onClick={onTap}
+                        className="px-3 py-1.5 text-xs uppercase font-bold border border-pink-500/50 rounded text-pink-300 hover:bg-pink-500/20"
+                    >
+                        Tap
+                    </button>
+                </div>
+            </div>
+
+            {config.beatSync && (
+                <div className="space-y-3 opacity-80 pl-2 border-l-2 border-pink-500/30">
+                  {([['spawnOn', 'Spawn'], ['moveOn', 'Move'], ['lockOn', 'Lock']] as const).map(([key, label]) => (
+                    <div key={key} className="flex items-center justify-between text-xs uppercase text-pink-300">
+                      <span>{label}</span>
+                      <div className="flex space-x-1">
+                        {BEAT_DIVISIONS.map(d => (
+                          <button
+                            key={d.value}
+                            onClick={() => onChange(key, d.value)}
+                            className={`px-2 py-0.5 text-[10px] border border-white/10 rounded ${config[key] === d.value ? 'bg-pink-900/80 text-pink-200 border-pink-500' : 'text-gray-500 hover:bg-white/5'}`}
+                          >
+                            {d.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-xs uppercase text-pink-300">
+                      <span>Phase Offset</span>
+                      <span>{config.beatPhaseOffset.toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range" min="-0.5" max="0.5" step="0.01"
+                      value={config.beatPhaseOffset}
+                      onChange={(e) => onChange('beatPhaseOffset', Number(e.target.value))}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
+                    />
+                  </div>
+                </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs uppercase tracking-widest text-cyan-300">
+                <span>AI Strategy</span>
+                {Object.keys(weightOverrides).length > 0 && (
+                  <button onClick={() => onChange('aiWeights', {})} className="text-[10px] text-gray-400 hover:text-white">
+                    Reset Weights
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-3 gap-1">
+                {AI_STRATEGY_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => {
+                      // Overrides were tuned for the previous strategy's scale
+                      onChange('aiStrategy', option.value);
+                      onChange('aiWeights', {});
+                    }}
+                    className={`py-1 text-[10px] uppercase border border-white/10 rounded font-bold ${config.aiStrategy === option.value ? 'bg-cyan-900/80 text-cyan-200 border-cyan-500' : 'text-gray-500 hover:bg-white/5'}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2 opacity-80 pl-2 border-l-2 border-cyan-500/30">
+              {config.aiStrategy === 'chaotic' && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs uppercase text-cyan-300">
+                    <span>Mistakes</span>
+                    <span>{Math.round(config.aiMistakeRate * 100)}%</span>
+                  </div>
+                  <input
+                    type="range" min="0" max="1" step="0.01"
+                    value={config.aiMistakeRate}
+                    onChange={(e) => onChange('aiMistakeRate', Number(e.target.value))}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                  />
+                </div>
+              )}
+              {weightKeys.map(key => (
+                <div key={key} className="space-y-1">
+                  <div className="flex justify-between text-[10px] uppercase text-gray-400">
+                    <span>{key.replace(/([A-Z])/g, ' $1')}</span>
+                    <span>{aiWeights[key].toFixed(2)}</span>
+                  </div>
+                  <input
+                    type="range" min="-10" max="10" step="0.05"
+                    value={aiWeights[key]}
+                    onChange={(e) => onChange('aiWeights', { ...weightOverrides, [key]: Number(e.target.value) })}
+                    className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                  />
+                </div>
+              ))}
+            </div>
+
             <div className="grid grid-cols-2 gap-4 pt-2">
               <div className="space-y-2">
                 <div className="flex justify-between text-xs uppercase text-gray-400">
@@ -212,6 +434,25 @@ export const Controls: React.FC<ControlsProps> = ({ config, onChange, onLoadConf
                >
                  Manual
                </button>
+               <button
+                  onClick={() => onChange('cameraMode', 'path')}
+                  className={`flex-1 py-1.5 text-xs uppercase border border-white/10 rounded font-bold ${config.cameraMode === 'path' ? 'bg-cyan-900/80 text-cyan-200 border-cyan-500' : 'text-gray-500 hover:bg-white/5'}`}
+               >
+                 Path
+               </button>
+             </div>
+
+             {/* Path presets */}
+             <div className="grid grid-cols-3 gap-2 mb-4">
+               {getCameraPathNames().map(name => (
+                 <button
+                   key={name}
+                   onClick={() => setCameraPath(name)}
+                   className="p-1 text-[10px] uppercase bg-white/10 hover:bg-white/20 rounded text-center"
+                 >
+                   {name}
+                 </button>
+               ))}
              </div>
 
              {config.cameraMode === 'orbit' ? (
@@ -227,15 +468,17 @@ export const Controls: React.FC<ControlsProps> = ({ config, onChange, onLoadConf
                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
                  />
                </div>
+             ) : config.cameraMode === 'path' ? (
+               <div className="text-[10px] text-gray-400 bg-black/40 p-2 rounded">
+                 {config.cameraPath?.keyframes?.length ? (
+                   <p>{config.cameraPath.keyframes.length} keyframe{config.cameraPath.keyframes.length === 1 ? '' : 's'}{config.cameraPath.loop ? ', looping' : ''}.</p>
+                 ) : (
+                   <p>No path yet: pick one above.</p>
+                 )}
+                 <p className="mt-1 text-gray-500">Use <code>TetrisFlow.setCameraPath({'{ keyframes }'})</code> for your own.</p>
+               </div>
              ) : (
                 <div className="space-y-4 animate-in fade-in">
-                    {/* Presets */}
-                    <div className="grid grid-cols-3 gap-2">
-                        <button onClick={() => setPreset('front')} className="p-1 text-[10px] bg-white/10 hover:bg-white/20 rounded text-center">FRONT</button>
-                        <button onClick={() => setPreset('iso')} className="p-1 text-[10px] bg-white/10 hover:bg-white/20 rounded text-center">ISO</button>
-                        <button onClick={() => setPreset('top')} className="p-1 text-[10px] bg-white/10 hover:bg-white/20 rounded text-center">TOP</button>
-                    </div>
-
                     <div className="space-y-3 bg-white/5 p-3 rounded-lg border border-white/5">
                         <div className="space-y-1">
                         <div className="flex justify-between text-[10px] uppercase text-gray-400">
@@ -276,6 +519,42 @@ export const Controls: React.FC<ControlsProps> = ({ config, onChange, onLoadConf
                     </div>
                 </div>
              )}
+
+             <div className="space-y-1 mt-4">
+               <div className="flex justify-between text-xs uppercase text-cyan-300">
+                 <span>Field of View</span>
+                 <span>{config.cameraFov ?? 60}°</span>
+               </div>
+               <input
+                 type="range" min="20" max="110" step="1"
+                 value={config.cameraFov ?? 60}
+                 onChange={(e) => onChange('cameraFov', Number(e.target.value))}
+                 className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+               />
+             </div>
+
+             <div className="space-y-2 mt-3 pt-3 border-t border-white/10">
+               <div className="text-[10px] uppercase text-gray-400">Reactive</div>
+               {([
+                 ['cameraFollow', 'Follow Piece'],
+                 ['cameraPunch', 'Punch-In on Clears'],
+                 ['cameraShake', 'Shake on Beat'],
+                 ['cameraDolly', 'Slow Dolly']
+               ] as const).map(([key, label]) => (
+                 <div key={key} className="space-y-1">
+                   <div className="flex justify-between text-[10px] uppercase text-gray-500">
+                     <span>{label}</span>
+                     <span>{config[key] ?? 0}</span>
+                   </div>
+                   <input
+                    type="range" min="0" max="1" step="0.05"
+                    value={config[key] ?? 0}
+                    onChange={(e) => onChange(key, Number(e.target.value))}
+                    className="w-full h-1 bg-gray-700 rounded appearance-none cursor-pointer accent-cyan-500"
+                   />
+                 </div>
+               ))}
+             </div>
           </>
         )}
 
@@ -289,9 +568,10 @@ export const Controls: React.FC<ControlsProps> = ({ config, onChange, onLoadConf
                </div>
                
                <div className="grid grid-cols-4 gap-2">
-                 {['none', 'wave', 'plasma', 'heart', 'matrix', 'fire', 'scanline', 'sparkle', 'custom'].map((style) => (
+                 {visualStyles.map((style) => (
                    <button
                      key={style}
+                     title={style}
                      onClick={() => onChange('visualStyle', style)}
                      className={`text-[9px] uppercase py-2 rounded border transition-all truncate ${config.visualStyle === style ? 'bg-yellow-500/20 border-yellow-500 text-yellow-200' : 'bg-black/20 border-white/10 text-gray-400 hover:border-white/30'}`}
                    >
@@ -315,10 +595,37 @@ export const Controls: React.FC<ControlsProps> = ({ config, onChange, onLoadConf
                  </div>
                )}
 
+               {config.visualStyle !== 'none' && (
+                 <div className="space-y-2 mt-3 pt-3 border-t border-white/10">
+                   <div className="text-[10px] uppercase text-gray-400">Flow Also Drives</div>
+                   {([
+                     ['flowHue', 'Hue', -1, 1],
+                     ['flowSaturation', 'Saturation', -1, 1],
+                     ['flowScale', 'Scale', -1, 1],
+                     ['flowExtrude', 'Extrude', -2, 2],
+                     ['flowOpacity', 'Opacity', -1, 1]
+                   ] as const).map(([key, label, min, max]) => (
+                     <div key={key} className="space-y-1">
+                       <div className="flex justify-between text-[10px] uppercase text-gray-500">
+                         <span>{label}</span>
+                         <span>{config[key] ?? 0}</span>
+                       </div>
+                       <input
+                        type="range" min={min} max={max} step="0.05"
+                        value={config[key] ?? 0}
+                        onChange={(e) => onChange(key, Number(e.target.value))}
+                        className="w-full h-1 bg-gray-700 rounded appearance-none cursor-pointer accent-yellow-500"
+                       />
+                     </div>
+                   ))}
+                 </div>
+               )}
+
                {config.visualStyle === 'custom' && (
                  <div className="text-[10px] text-gray-400 mt-2 bg-black/40 p-2 rounded">
                    <p>API Mode Active.</p>
                    <p className="mt-1 text-gray-500">Use <code>TetrisFlow.set('customGrid', [...])</code> to draw patterns.</p>
+                   <p className="mt-1 text-gray-500">Animate with <code>loadCustomAnimation</code>, <code>pushCustomFrame</code> or <code>loadCustomGif</code>.</p>
                  </div>
                )}
             </div>
@@ -460,7 +767,41 @@ export const Controls: React.FC<ControlsProps> = ({ config, onChange, onLoadConf
               </div>
 
               <div className="space-y-2">
-                 <div className="text-xs uppercase text-gray-400 mb-1">Load Presets</div>
+                 <div className="text-xs uppercase text-gray-400 mb-1">Factory Presets</div>
+                 <div className="grid grid-cols-2 gap-2">
+                   {FACTORY_PRESETS.map(preset => (
+                     <div key={preset.name} className="relative group">
+                       <button
+                         onClick={() => handleLoadFactoryPreset(preset)}
+                         title={preset.description}
+                         className="w-full bg-white/5 rounded overflow-hidden border border-white/5 hover:border-purple-500 transition-colors text-left"
+                       >
+                         <img src={FACTORY_THUMBNAILS.get(preset.name)} alt="" className="w-full aspect-[4/3] block" />
+                         <span className="block px-2 py-1 text-[10px] uppercase tracking-wider text-gray-300 truncate">{preset.name}</span>
+                       </button>
+                       <button
+                         onClick={() => handleCloneFactoryPreset(preset)}
+                         title="Copy to my presets"
+                         className="absolute top-1 right-1 p-1 bg-black/60 rounded text-gray-400 hover:text-cyan-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                       >
+                         <Copy size={12} />
+                       </button>
+                     </div>
+                   ))}
+                 </div>
+              </div>
+
+              <div className="space-y-2">
+                 <div className="flex items-center justify-between mb-1">
+                   <div className="text-xs uppercase text-gray-400">My Presets</div>
+                   <label className="flex items-center gap-1 text-[10px] uppercase text-gray-400 hover:text-white cursor-pointer" title="Import a preset .json file">
+                     <Upload size={12} /> Import
+                     <input type="file" accept=".json,application/json" onChange={handleImportPreset} className="hidden" />
+                   </label>
+                 </div>
+                 {presetMessage && (
+                   <div className="text-[10px] text-gray-400 bg-black/40 p-2 rounded">{presetMessage}</div>
+                 )}
                  {savedPresets.length === 0 ? (
                    <div className="text-center py-4 text-gray-600 text-xs italic">No saved presets</div>
                  ) : (
@@ -473,6 +814,20 @@ export const Controls: React.FC<ControlsProps> = ({ config, onChange, onLoadConf
                           >
                             {name}
                           </button>
+                          <button
+                            onClick={() => handleSharePreset(name)}
+                            title="Copy share link"
+                            className="text-gray-600 hover:text-cyan-300 p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                          >
+                            <Link size={14} />
+                          </button>
+                          <button
+                            onClick={() => handleDownloadPreset(name)}
+                            title="Download .json"
+                            className="text-gray-600 hover:text-cyan-300 p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                          >
+                            <Download size={14} />
+                          </button>
                           <button 
                             onClick={() => handleDeletePreset(name)}
                             className="text-gray-600 hover:text-red-400 p-1 opacity-0 group-hover:opacity-100 transition-opacity"
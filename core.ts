@@ -0,0 +1,40 @@
+// Framework-free entry: a board in any element, without React, lucide or Tailwind.
+// `npm run build:core` builds it (and the wrappers below) as ES modules in dist/core.
+//
+//   import { createTetrisFlow } from './core.js';
+//   const board = createTetrisFlow(document.getElementById('bg'), { visualStyle: 'fire' });
+//   board.api.loadPreset('ember');
+//
+// Wrappers: element.ts (<tetris-flow>) and react.tsx (<TetrisFlowBoard>).
+// Unlike the full app, it has no debug panel and ignores the page's URL parameters.
+
+import { SDKInitOptions, TetrisInstance } from './types';
+import { TetrisController } from './logic/TetrisController';
+import { createPresetManager } from './logic/PresetManager';
+import { createPresetStorage } from './logic/PresetStorage';
+
+export const createTetrisFlow = (container: HTMLElement, options: SDKInitOptions = {}): TetrisInstance => {
+  // SDK settings aren't part of the config
+  const { presetStorage, ...config } = options;
+  let controller: TetrisController | null = new TetrisController(container, {
+    config,
+    presets: createPresetManager(createPresetStorage(presetStorage))
+  });
+  const api = controller.api;
+
+  return {
+    get api() {
+      return controller ? api : null;
+    },
+    ready: Promise.resolve(api),
+    destroy: () => {
+      controller?.dispose();
+      controller = null;
+    }
+  };
+};
+
+export { TetrisController } from './logic/TetrisController';
+export { MemoryPresetStorage, LocalPresetStorage, IndexedDBPresetStorage, RestPresetStorage } from './logic/PresetStorage';
+export { DEFAULT_CONFIG } from './logic/ConfigSchema';
+export type * from './types';
@@ -0,0 +1,139 @@
+// <tetris-flow>: the framework-free core as a Web Component.
+//
+//   <script type="module" src="dist/core/element.js"></script>
+//   <tetris-flow visual-style="fire" bpm="120" preset="ember" style="height: 400px"></tetris-flow>
+//
+// Attributes are GameConfig fields in kebab-case (grid-rows, bloom-strength...). Numbers and
+// text are read as is, booleans are "true"/"false" (or just present), and structured fields
+// (target-image, custom-grid, camera-path...) take JSON. Changing one updates the running board.
+// Two more attributes: `preset` loads a preset by name, and `preset-storage` picks the backend
+// when the board starts ('memory', 'localStorage', 'indexedDB', or a REST URL).
+//
+// element.api is the board's control API (null while disconnected). Board events are
+// re-dispatched on the element as DOM events prefixed with 'tetris-' ('tetris-lineClear'...),
+// with the payload as `detail`.
+
+import { GameConfig, PresetStorageOption, TetrisEventType, TetrisGlobalAPI, TetrisInstance } from './types';
+import { createTetrisFlow } from './core';
+import { DEFAULT_CONFIG, sanitizeConfig } from './logic/ConfigSchema';
+
+// A Record so a new event type can't be forgotten here
+const EVENT_TYPES: Record<TetrisEventType, true> = {
+  reset: true,
+  lineClear: true,
+  pieceSpawn: true,
+  pieceLock: true,
+  boardFull: true,
+  topOut: true,
+  targetComplete: true,
+  cue: true
+};
+
+const toAttribute = (key: string) => key.replace(/[A-Z]/g, char => '-' + char.toLowerCase());
+
+// Attribute name -> config field
+const CONFIG_ATTRIBUTES = new Map(
+  (Object.keys(DEFAULT_CONFIG) as (keyof GameConfig)[]).map(key => [toAttribute(key), key])
+);
+
+// Text from an attribute, typed like the field's default. Returns undefined if unreadable.
+const parseAttribute = (key: keyof GameConfig, value: string): unknown => {
+  const fallback = DEFAULT_CONFIG[key];
+  if (typeof fallback === 'number') return value.trim() === '' ? undefined : Number(value);
+  if (typeof fallback === 'boolean') return value !== 'false';
+  if (typeof fallback === 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const parseStorage = (value: string | null): PresetStorageOption | undefined => {
+  if (!value) return undefined;
+  if (/^https?:\/\//.test(value)) return { type: 'rest', url: value };
+  return value as PresetStorageOption;
+};
+
+export class TetrisFlowElement extends HTMLElement {
+  static get observedAttributes() {
+    return [...CONFIG_ATTRIBUTES.keys(), 'preset'];
+  }
+
+  private instance: TetrisInstance | null = null;
+  private container: HTMLDivElement;
+
+  constructor() {
+    super();
+    // The canvas fills the element; the page sizes the element
+    const shadow = this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = ':host { display: block; position: relative; min-height: 150px; background: #050510; } div { position: absolute; inset: 0; overflow: hidden; }';
+    this.container = document.createElement('div');
+    shadow.append(style, this.container);
+  }
+
+  public get api(): TetrisGlobalAPI | null {
+    return this.instance?.api ?? null;
+  }
+
+  connectedCallback() {
+    if (this.instance) return;
+    this.instance = createTetrisFlow(this.container, {
+      ...this.readConfig(),
+      presetStorage: parseStorage(this.getAttribute('preset-storage'))
+    });
+
+    const api = this.instance.api!;
+    for (const type of Object.keys(EVENT_TYPES) as TetrisEventType[]) {
+      api.on(type, payload => this.dispatchEvent(new CustomEvent(`tetris-${type}`, { detail: payload })));
+    }
+
+    const preset = this.getAttribute('preset');
+    if (preset) api.loadPreset(preset);
+  }
+
+  disconnectedCallback() {
+    this.instance?.destroy();
+    this.instance = null;
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, value: string | null) {
+    const api = this.api;
+    if (!api || oldValue === value) return; // Before connecting, connectedCallback reads them all
+
+    if (name === 'preset') {
+      if (value) api.loadPreset(value);
+      return;
+    }
+    const key = CONFIG_ATTRIBUTES.get(name);
+    if (!key) return;
+    // A removed attribute goes back to its default
+    const update = this.clean({ [key]: value === null ? DEFAULT_CONFIG[key] : parseAttribute(key, value) });
+    if (key in update) api.set(key, update[key]);
+  }
+
+  // Every config attribute that's set, checked like a preset
+  private readConfig(): Partial<GameConfig> {
+    const config: Record<string, unknown> = {};
+    for (const [name, key] of CONFIG_ATTRIBUTES) {
+      const value = this.getAttribute(name);
+      if (value !== null) config[key] = parseAttribute(key, value);
+    }
+    return this.clean(config);
+  }
+
+  private clean(config: Record<string, unknown>): Partial<GameConfig> {
+    const defined = Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+    const { config: clean, warnings } = sanitizeConfig(defined);
+    const rejected = Object.keys(config).filter(key => config[key] === undefined).map(key => `'${key}' is unreadable`);
+    if (warnings.length + rejected.length > 0) {
+      console.warn(`<tetris-flow>: ${[...rejected, ...warnings].join('; ')}`);
+    }
+    return clean;
+  }
+}
+
+if (!customElements.get('tetris-flow')) {
+  customElements.define('tetris-flow', TetrisFlowElement);
+}
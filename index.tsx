@@ -1,57 +1,104 @@
-
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
-import { GameConfig } from './types';
+import { SDKInitOptions, TetrisGlobalAPI, TetrisInstance } from './types';
+import { createPresetStorage } from './logic/PresetStorage';
 
-// Store the root to allow unmounting later
-let appRoot: ReactDOM.Root | null = null;
+interface MountOptions {
+  global?: boolean;  // Publish the API as window.TetrisFlow (init and the dev page)
+  sdkMode?: boolean; // Start in 'live' mode (no UI)
+}
 
-const initTetrisBackground = (containerId: string, options?: Partial<GameConfig>) => {
-  const container = document.getElementById(containerId);
-  if (!container) {
-    console.error(`TetrisSDK: Container with ID "${containerId}" not found.`);
-    return;
-  }
+// Mounts one board with its own React root. Its App builds its own TetrisController (scene,
+// event listeners and API), so boards only share what's page-wide anyway (registered styles).
+const mountInstance = (container: HTMLElement, options: SDKInitOptions, mount: MountOptions = {}): TetrisInstance => {
+  const { global = false, sdkMode = true } = mount;
 
   // Ensure relative positioning so the absolute canvas fits inside
   if (getComputedStyle(container).position === 'static') {
     container.style.position = 'relative';
   }
 
-  // Cleanup existing instance if any
-  if (appRoot) {
-    appRoot.unmount();
-    appRoot = null;
-  }
+  // SDK settings aren't part of the config
+  const { presetStorage, ...configOverride } = options;
+
+  let api: TetrisGlobalAPI | null = null;
+  let resolveReady: (api: TetrisGlobalAPI) => void = () => {};
+  const ready = new Promise<TetrisGlobalAPI>(resolve => { resolveReady = resolve; });
+
+  // The App hands its API over once mounted, and null when unmounted
+  const publishApi = (next: TetrisGlobalAPI | null) => {
+    const previous = api;
+    api = next;
+    // StrictMode mounts, unmounts and remounts the App in one go: wait for that to settle so
+    // `ready` gets the API that stays, not the one disposed right after
+    if (next) queueMicrotask(() => { if (api) resolveReady(api); });
+    if (global && (next || window.TetrisFlow === previous)) {
+      // @ts-ignore - cleared on unmount to prevent stale references
+      window.TetrisFlow = next ?? undefined;
+    }
+  };
+
+  let root: ReactDOM.Root | null = ReactDOM.createRoot(container);
 
-  appRoot = ReactDOM.createRoot(container);
-  
   // In SDK mode, we default to 'live' mode (no UI), unless manually overridden via options or URL
   // But we pass the options down to the App
-  appRoot.render(
+  root.render(
     <React.StrictMode>
-      <App initialConfigOverride={options} sdkMode={true} />
+      <App initialConfigOverride={configOverride} sdkMode={sdkMode} presetStorage={createPresetStorage(presetStorage)} onApi={publishApi} />
     </React.StrictMode>
   );
+
+  return {
+    get api() {
+      return api;
+    },
+    ready,
+    destroy: () => {
+      if (!root) return;
+      root.unmount(); // The App hands back null, which also clears window.TetrisFlow
+      root = null;
+    }
+  };
 };
 
-const destroyTetrisBackground = () => {
-  if (appRoot) {
-    appRoot.unmount();
-    appRoot = null;
-    // Also clean up the global API to prevent stale references
-    // @ts-ignore
-    window.TetrisFlow = undefined;
+const createTetrisInstance = (target: HTMLElement | string, options: SDKInitOptions = {}): TetrisInstance => {
+  const container = typeof target === 'string' ? document.getElementById(target) : target;
+  if (!container) {
+    throw new Error(`TetrisSDK: Container with ID "${target}" not found.`);
+  }
+  return mountInstance(container, options);
+};
+
+// --- SINGLE BOARD (init / destroy) ---
+// The original API: one board at a time, controlled through window.TetrisFlow
+
+let globalInstance: TetrisInstance | null = null;
+
+const initTetrisBackground = (containerId: string, options: SDKInitOptions = {}) => {
+  const container = document.getElementById(containerId);
+  if (!container) {
+    console.error(`TetrisSDK: Container with ID "${containerId}" not found.`);
+    return;
   }
+
+  // Cleanup existing instance if any (boards from create are left alone)
+  globalInstance?.destroy();
+  globalInstance = mountInstance(container, options, { global: true });
+};
+
+const destroyTetrisBackground = () => {
+  globalInstance?.destroy();
+  globalInstance = null;
 };
 
 // Expose the SDK to the window
 window.TetrisSDK = {
+  create: createTetrisInstance,
   init: initTetrisBackground,
   destroy: destroyTetrisBackground,
   get api() {
-    return window.TetrisFlow || null;
+    return globalInstance?.api ?? null;
   }
 };
 
@@ -62,12 +109,5 @@ const devRoot = document.getElementById('root');
 if (devRoot && !window.TetrisFlow) {
   // Check if we are being embedded (e.g. inside an iframe or host that intentionally left #root empty)
   // For safety, we only auto-render if body has no other content or specific attribute logic could be added here.
-  
-  const root = ReactDOM.createRoot(devRoot);
-  root.render(
-    <React.StrictMode>
-      <App />
-    </React.StrictMode>
-  );
-  appRoot = root;
+  globalInstance = mountInstance(devRoot, {}, { global: true, sdkMode: false });
 }
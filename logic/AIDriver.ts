@@ -0,0 +1,72 @@
+import { TetrisGame } from './TetrisAI';
+
+type PlannedMove = ReturnType<TetrisGame['getBestMove']>;
+
+// Carries out the AI's chosen placement one visible sub-step at a time:
+// rotate, shift one column per step, fall one row per step, then lock.
+// Knows nothing about time; callers decide when to plan() and step().
+export class AIDriver {
+  private game: TetrisGame;
+  private move: PlannedMove | null = null;
+  private stepIndex = 0; // 0: rotate, 1: move X, 2: drop
+
+  constructor(game: TetrisGame) {
+    this.game = game;
+  }
+
+  public get busy(): boolean {
+    return this.move !== null;
+  }
+
+  // True once the piece has reached its resting row: the next step() locks it
+  public get landed(): boolean {
+    const piece = this.game.currentPiece;
+    return this.move !== null && this.stepIndex === 2 && !!piece
+      && this.game.checkCollision(piece.shape, piece.x, piece.y + 1);
+  }
+
+  // Pick the next placement. Returns false if there is no piece to move.
+  public plan(): boolean {
+    if (!this.game.currentPiece) return false;
+    this.move = this.game.getBestMove();
+    this.stepIndex = 0;
+    return true;
+  }
+
+  public cancel() {
+    this.move = null;
+    this.stepIndex = 0;
+  }
+
+  // Perform one sub-step. Returns the kind of step taken (null when idle).
+  public step(): 'rotate' | 'shift' | 'drop' | 'lock' | null {
+    const piece = this.game.currentPiece;
+    if (!this.move || !piece) {
+      this.cancel();
+      return null;
+    }
+
+    // Step 1: Rotate
+    if (this.stepIndex === 0) {
+      for (let i = 0; i < this.move.rotation; i++) {
+        this.game.rotatePiece();
+      }
+      this.stepIndex++;
+      return 'rotate';
+    }
+
+    // Step 2: Move X
+    if (this.stepIndex === 1) {
+      const dx = Math.sign(this.move.x - piece.x);
+      // Arrived, or something is in the way: move on to the drop
+      if (dx === 0 || !this.game.shiftPiece(dx)) this.stepIndex++;
+      return 'shift';
+    }
+
+    // Step 3: Drop, row by row, then lock
+    if (this.game.dropPiece()) return 'drop';
+    this.game.lockPiece();
+    this.cancel();
+    return 'lock';
+  }
+}
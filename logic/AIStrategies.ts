@@ -0,0 +1,276 @@
+import { AIStrategyName, AIWeights, GridMatrix } from '../types';
+import { measureGrid } from './GridMetrics';
+import { SeededRandom } from './Random';
+
+// Placement search for the AI. A strategy gets a snapshot of the board and picks where
+// the current piece should go; TetrisGame and AIDriver take it from there.
+// Every strategy scores boards with the same linear evaluator; they differ in how they
+// search (one piece, two pieces, noisy) and in their default weights.
+
+export interface Placement {
+  x: number;
+  rotation: number; // Clockwise quarter turns from the piece's current orientation
+  dropY: number;
+}
+
+export interface AIContext {
+  grid: GridMatrix;
+  shape: number[][];              // Current piece, in its current orientation
+  nextShape: number[][] | null;   // Preview of the following piece, if the bag can tell
+  enableLineClear: boolean;
+  minLinesToClear: number;
+  weights: AIWeights;
+  mistakeRate: number;
+  rng: SeededRandom;
+  picture: number[][] | null;     // Brightness bitmap for the 'picture' weight
+}
+
+// Returns null when the piece fits nowhere
+export type AIStrategy = (ctx: AIContext) => Placement | null;
+
+interface Candidate extends Placement {
+  shape: number[][]; // Rotated shape
+  score: number;
+}
+
+const NO_WEIGHTS: AIWeights = {
+  height: 0,
+  lines: 0,
+  holes: 0,
+  bumpiness: 0,
+  landingHeight: 0,
+  erodedCells: 0,
+  rowTransitions: 0,
+  columnTransitions: 0,
+  wells: 0,
+  picture: 0
+};
+
+// The original evaluator. Without line clears we still want tight packing (few holes,
+// flat surface), but height is less bad because we WANT to stack.
+const greedyWeights = (enableLineClear: boolean): AIWeights => ({
+  ...NO_WEIGHTS,
+  height: enableLineClear ? -0.51 : -0.2,
+  lines: enableLineClear ? 0.76 : 1.5, // Reward "full lines" even if they don't clear, for neatness
+  holes: -0.6,
+  bumpiness: -0.3
+});
+
+export const getDefaultWeights = (strategy: AIStrategyName, enableLineClear: boolean): AIWeights => {
+  switch (strategy) {
+    case 'dellacherie':
+      // Published hand-tuned weights
+      return {
+        ...NO_WEIGHTS,
+        landingHeight: -4.500158825082766,
+        erodedCells: 3.4181268101392694,
+        rowTransitions: -3.2178882868487753,
+        columnTransitions: -9.348695305445199,
+        holes: -7.899265427351652,
+        wells: -3.3855972247263626
+      };
+    case 'picture':
+      // Packing matters less than hitting the picture
+      return { ...greedyWeights(false), height: -0.05, lines: 0, picture: 3 };
+    default:
+      return greedyWeights(enableLineClear);
+  }
+};
+
+const PICTURE_THRESHOLD = 0.5; // customGrid brightness at or above this counts as "on"
+const LOOKAHEAD_BEAM = 8;      // First-ply placements expanded with the next piece
+const CHAOTIC_NEAR_MISS = 3;   // A normal mistake picks among this many top placements
+
+// --- BOARD HELPERS ---
+
+const rotateShape = (shape: number[][]): number[][] =>
+  shape[0].map((_, col) => shape.map(row => row[col]).reverse());
+
+const collides = (grid: GridMatrix, shape: number[][], x: number, y: number): boolean => {
+  const rows = grid.length;
+  const cols = grid[0].length;
+  for (let r = 0; r < shape.length; r++) {
+    for (let c = 0; c < shape[r].length; c++) {
+      if (!shape[r][c]) continue;
+      const gx = x + c;
+      const gy = y + r;
+      if (gx < 0 || gx >= cols || gy >= rows) return true;
+      if (gy >= 0 && grid[gy][gx]) return true;
+    }
+  }
+  return false;
+};
+
+// Every rotation and column the piece can drop into from the top
+const enumerate = (grid: GridMatrix, shape: number[][], visit: (p: Placement, shape: number[][]) => void) => {
+  const cols = grid[0].length;
+  for (let rotation = 0; rotation < 4; rotation++) {
+    for (let x = -2; x < cols + 2; x++) {
+      if (collides(grid, shape, x, 0)) continue;
+      let dropY = 0;
+      while (!collides(grid, shape, x, dropY + 1)) dropY++;
+      visit({ x, rotation, dropY }, shape);
+    }
+    shape = rotateShape(shape);
+  }
+};
+
+// Copy of the grid with the piece written in, plus the rows it completed
+const land = (grid: GridMatrix, shape: number[][], x: number, y: number) => {
+  const placed = grid.map(row => [...row]);
+  for (let r = 0; r < shape.length; r++) {
+    for (let c = 0; c < shape[r].length; c++) {
+      if (shape[r][c] && y + r < placed.length) placed[y + r][x + c] = 'TEMP';
+    }
+  }
+  const fullRows: number[] = [];
+  for (let r = y; r < Math.min(y + shape.length, placed.length); r++) {
+    if (placed[r].every(cell => cell !== null)) fullRows.push(r);
+  }
+  return { grid: placed, fullRows };
+};
+
+const removeRows = (grid: GridMatrix, rows: number[]): GridMatrix => {
+  const kept = grid.filter((_, idx) => !rows.includes(idx));
+  while (kept.length < grid.length) kept.unshift(Array(grid[0].length).fill(null));
+  return kept;
+};
+
+// --- EVALUATOR ---
+
+const evaluate = (ctx: AIContext, grid: GridMatrix, shape: number[][], x: number, y: number): number => {
+  const w = ctx.weights;
+  const placed = land(grid, shape, x, y);
+  const rows = grid.length;
+  const cols = grid[0].length;
+
+  // Surface features, measured on the board before any clear (as the original AI did)
+  const metrics = measureGrid(placed.grid);
+  let score = w.height * metrics.aggregateHeight
+    + w.lines * metrics.completeLines
+    + w.holes * metrics.holes
+    + w.bumpiness * metrics.bumpiness;
+
+  if (w.landingHeight) {
+    score += w.landingHeight * (rows - y - shape.length / 2);
+  }
+
+  if (w.erodedCells && placed.fullRows.length) {
+    let ownCells = 0;
+    for (const r of placed.fullRows) {
+      shape[r - y].forEach(cell => { if (cell) ownCells++; });
+    }
+    score += w.erodedCells * placed.fullRows.length * ownCells;
+  }
+
+  if (w.rowTransitions || w.columnTransitions || w.wells) {
+    // Dellacherie measures these on the board after the clear
+    const clears = ctx.enableLineClear && placed.fullRows.length >= ctx.minLinesToClear;
+    const board = clears ? removeRows(placed.grid, placed.fullRows) : placed.grid;
+    const filled = (r: number, c: number) => c < 0 || c >= cols || r >= rows || board[r][c] !== null;
+    let rowTransitions = 0;
+    let columnTransitions = 0;
+    let wells = 0;
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c <= cols; c++) {
+        if (filled(r, c) !== filled(r, c - 1)) rowTransitions++;
+      }
+    }
+    for (let c = 0; c < cols; c++) {
+      let depth = 0;
+      for (let r = 0; r < rows; r++) {
+        if (filled(r, c) !== filled(r + 1, c)) columnTransitions++;
+        if (!filled(r, c) && filled(r, c - 1) && filled(r, c + 1)) {
+          depth++;
+          wells += depth; // A well of depth n adds 1 + 2 + ... + n
+        } else {
+          depth = 0;
+        }
+      }
+    }
+    score += w.rowTransitions * rowTransitions
+      + w.columnTransitions * columnTransitions
+      + w.wells * wells;
+  }
+
+  if (w.picture && ctx.picture && ctx.picture.length) {
+    // customGrid is bottom-aligned with the board, the same way the 'custom' style reads it
+    const offset = ctx.picture.length - rows;
+    for (let r = 0; r < shape.length; r++) {
+      for (let c = 0; c < shape[r].length; c++) {
+        if (!shape[r][c]) continue;
+        const value = ctx.picture[y + r + offset]?.[x + c] ?? 0;
+        score += value >= PICTURE_THRESHOLD ? w.picture : -w.picture;
+      }
+    }
+  }
+
+  return score;
+};
+
+// Scored placements for the current piece, best first. Ties keep search order.
+const rankPlacements = (ctx: AIContext): Candidate[] => {
+  const candidates: Candidate[] = [];
+  enumerate(ctx.grid, ctx.shape, (p, shape) => {
+    candidates.push({ ...p, shape, score: evaluate(ctx, ctx.grid, shape, p.x, p.dropY) });
+  });
+  return candidates.sort((a, b) => b.score - a.score);
+};
+
+const toPlacement = (c: Candidate | undefined): Placement | null =>
+  c ? { x: c.x, rotation: c.rotation, dropY: c.dropY } : null;
+
+// --- STRATEGIES ---
+
+const greedy: AIStrategy = (ctx) => toPlacement(rankPlacements(ctx)[0]);
+
+// Two-ply search: each promising placement is judged by the best follow-up for the next piece
+const lookahead: AIStrategy = (ctx) => {
+  const ranked = rankPlacements(ctx);
+  if (!ctx.nextShape) return toPlacement(ranked[0]);
+
+  let best: Candidate | undefined;
+  let bestScore = -Infinity;
+  for (const first of ranked.slice(0, LOOKAHEAD_BEAM)) {
+    const placed = land(ctx.grid, first.shape, first.x, first.dropY);
+    const clears = ctx.enableLineClear && placed.fullRows.length >= ctx.minLinesToClear;
+    const after = clears ? removeRows(placed.grid, placed.fullRows) : placed.grid;
+
+    // Cleared lines vanish from the second board, so credit them here
+    let score = clears ? ctx.weights.lines * placed.fullRows.length : 0;
+    let followUp = -Infinity;
+    enumerate(after, ctx.nextShape, (p, shape) => {
+      followUp = Math.max(followUp, evaluate(ctx, after, shape, p.x, p.dropY));
+    });
+    // The next piece wouldn't fit: only take this if nothing else works
+    score += followUp === -Infinity ? first.score - 1e6 : followUp;
+
+    if (score > bestScore) {
+      bestScore = score;
+      best = first;
+    }
+  }
+  return toPlacement(best ?? ranked[0]);
+};
+
+// Mostly greedy. Sometimes settles for a near miss, and now and then blunders anywhere.
+const chaotic: AIStrategy = (ctx) => {
+  const ranked = rankPlacements(ctx);
+  if (ranked.length === 0) return null;
+  const roll = ctx.rng.next();
+  if (roll < ctx.mistakeRate * 0.2) {
+    return toPlacement(ranked[ctx.rng.nextInt(ranked.length)]);
+  }
+  if (roll < ctx.mistakeRate) {
+    return toPlacement(ranked[1 + ctx.rng.nextInt(Math.min(CHAOTIC_NEAR_MISS, ranked.length) - 1)] ?? ranked[0]);
+  }
+  return toPlacement(ranked[0]);
+};
+
+export const AI_STRATEGIES: Record<AIStrategyName, AIStrategy> = {
+  greedy,
+  lookahead,
+  dellacherie: greedy, // Same search, different features (see getDefaultWeights)
+  chaotic,
+  picture: greedy
+};
@@ -0,0 +1,90 @@
+import { AudioInput } from '../types';
+import { AudioFeatureExtractor, AudioFeatures } from './AudioFeatures';
+
+// createMediaElementSource() may only be called once per element, so reuse the node
+// if the same <audio> element is connected again.
+const elementSources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+
+// One context for every stream/element we tap. Element sources are bound to the context
+// that created them, so it must outlive any single analyzer.
+let sharedContext: AudioContext | null = null;
+const getSharedContext = (): AudioContext => {
+  if (!sharedContext) sharedContext = new AudioContext();
+  return sharedContext;
+};
+
+// Live wrapper around AudioFeatureExtractor: taps any Web Audio source with an
+// AnalyserNode and analyses the latest window of samples once per animation frame.
+export class AudioAnalyzer {
+  public onFeatures?: (features: AudioFeatures) => void;
+  public onBeat?: (features: AudioFeatures) => void;
+
+  private context: AudioContext;
+  private analyser: AnalyserNode;
+  private source: AudioNode;
+  private samples: Float32Array;
+  private extractor: AudioFeatureExtractor;
+  private frameId: number | null = null;
+
+  constructor(input: AudioInput, context?: AudioContext) {
+    this.context = input instanceof AudioNode
+      ? input.context as AudioContext
+      : context ?? getSharedContext();
+
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = 2048;
+    this.samples = new Float32Array(this.analyser.fftSize);
+    this.extractor = new AudioFeatureExtractor({ frameSize: this.analyser.fftSize });
+
+    if (input instanceof AudioNode) {
+      this.source = input;
+    } else if (input instanceof MediaStream) {
+      // Microphones / line-in: analyse only, never route to the speakers (feedback)
+      this.source = this.context.createMediaStreamSource(input);
+    } else {
+      let node = elementSources.get(input);
+      if (!node) {
+        node = this.context.createMediaElementSource(input);
+        elementSources.set(input, node);
+        // Taking over the element silences it unless we pass it through
+        node.connect(this.context.destination);
+      }
+      this.source = node;
+    }
+
+    this.source.connect(this.analyser);
+  }
+
+  public start() {
+    if (this.frameId !== null) return;
+    // Autoplay policies start contexts suspended. Resuming is refused until the page has had
+    // a user gesture; analysis then reads silence until the context runs.
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(e => console.warn('Audio input: could not resume the audio context', e));
+    }
+    this.extractor.reset();
+    this.frameId = requestAnimationFrame(this.tick);
+  }
+
+  public stop() {
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+  }
+
+  public dispose() {
+    this.stop();
+    try {
+      this.source.disconnect(this.analyser);
+    } catch (e) {
+      // Already disconnected
+    }
+  }
+
+  private tick = () => {
+    this.analyser.getFloatTimeDomainData(this.samples);
+    const features = this.extractor.process(this.samples, this.context.sampleRate, this.context.currentTime);
+    if (this.onFeatures) this.onFeatures(features);
+    if (features.beat && this.onBeat) this.onBeat(features);
+    this.frameId = requestAnimationFrame(this.tick);
+  };
+}
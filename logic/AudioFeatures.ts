@@ -0,0 +1,251 @@
+// Music feature extraction on raw PCM frames. No Web Audio here, so the same code runs on
+// live analyser frames in the browser and on decoded buffers in Node.
+//
+// Per frame: energy (RMS with auto-gain), spectral centroid, onsets (spectral flux against
+// an adaptive threshold), and a running tempo / beat estimate from inter-onset intervals.
+
+export interface AudioFeatures {
+  time: number;           // Seconds, as passed to process()
+  energy: number;         // 0 to 1, loudness relative to the recent peak
+  centroid: number;       // Spectral centroid in Hz
+  brightness: number;     // Centroid mapped to 0 to 1 (log scale, 150 Hz to 8 kHz)
+  onset: boolean;         // A new attack started in this frame
+  onsetStrength: number;  // Spectral flux, unnormalised
+  tempo: number | null;   // Estimated BPM once enough onsets have been heard
+  beat: boolean;          // A predicted beat fell between the previous frame and this one
+}
+
+export interface FeatureExtractorOptions {
+  frameSize?: number;     // Power of two. Default 1024.
+  minTempo?: number;      // Tempo estimates are folded into [minTempo, 2 * minTempo). Default 90.
+}
+
+const MIN_ONSET_GAP = 0.1;      // Seconds between onsets
+const FLUX_HISTORY = 1.0;       // Seconds of flux used for the adaptive threshold
+const ONSET_MEMORY = 8.0;       // Seconds of onsets used for tempo
+const PEAK_HALF_LIFE = 4.0;     // Seconds for the energy auto-gain to decay by half
+
+export class AudioFeatureExtractor {
+  private readonly frameSize: number;
+  private readonly minTempo: number;
+  private readonly window: Float32Array;
+  private readonly re: Float32Array;
+  private readonly im: Float32Array;
+  private prevSpectrum: Float32Array;
+
+  private peak = 1e-4;
+  private lastTime: number | null = null;
+  private fluxHistory: { time: number; flux: number }[] = [];
+  private onsets: number[] = [];
+  private tempo: number | null = null;
+  private nextBeat: number | null = null;
+
+  constructor(options: FeatureExtractorOptions = {}) {
+    this.frameSize = options.frameSize ?? 1024;
+    this.minTempo = options.minTempo ?? 90;
+    if ((this.frameSize & (this.frameSize - 1)) !== 0) {
+      throw new Error('frameSize must be a power of two');
+    }
+    // Hann window
+    this.window = new Float32Array(this.frameSize);
+    for (let i = 0; i < this.frameSize; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (this.frameSize - 1));
+    }
+    this.re = new Float32Array(this.frameSize);
+    this.im = new Float32Array(this.frameSize);
+    this.prevSpectrum = new Float32Array(this.frameSize / 2);
+  }
+
+  public reset() {
+    this.peak = 1e-4;
+    this.lastTime = null;
+    this.fluxHistory = [];
+    this.onsets = [];
+    this.tempo = null;
+    this.nextBeat = null;
+    this.prevSpectrum.fill(0);
+  }
+
+  // Analyse one frame of mono samples (-1 to 1). Shorter frames are zero-padded,
+  // longer ones use their most recent frameSize samples.
+  public process(samples: Float32Array, sampleRate: number, time: number): AudioFeatures {
+    const n = this.frameSize;
+    const offset = Math.max(0, samples.length - n);
+    const dt = this.lastTime === null ? 0 : Math.max(0, time - this.lastTime);
+    this.lastTime = time;
+
+    // 1. Energy with decaying-peak auto gain
+    let sumSquares = 0;
+    for (let i = 0; i < n; i++) {
+      const s = samples[offset + i] ?? 0;
+      sumSquares += s * s;
+      this.re[i] = s * this.window[i];
+      this.im[i] = 0;
+    }
+    const rms = Math.sqrt(sumSquares / n);
+    this.peak = Math.max(rms, this.peak * Math.pow(0.5, dt / PEAK_HALF_LIFE), 1e-4);
+    const energy = Math.min(1, rms / this.peak);
+
+    // 2. Spectrum, centroid and flux
+    fft(this.re, this.im);
+    const bins = n / 2;
+    const binHz = sampleRate / n;
+    let weighted = 0;
+    let total = 0;
+    let flux = 0;
+    for (let k = 1; k < bins; k++) {
+      const mag = Math.hypot(this.re[k], this.im[k]);
+      weighted += mag * k * binHz;
+      total += mag;
+      // Log compression keeps quiet passages from being ignored
+      const compressed = Math.log1p(mag * 10);
+      const rise = compressed - this.prevSpectrum[k];
+      if (rise > 0) flux += rise;
+      this.prevSpectrum[k] = compressed;
+    }
+    const centroid = total > 0 ? weighted / total : 0;
+    const brightness = centroid > 0
+      ? clamp01(Math.log(centroid / 150) / Math.log(8000 / 150))
+      : 0;
+
+    // 3. Onset: flux well above its recent average, and not too soon after the last one
+    this.fluxHistory.push({ time, flux });
+    while (this.fluxHistory.length && this.fluxHistory[0].time < time - FLUX_HISTORY) {
+      this.fluxHistory.shift();
+    }
+    const meanFlux = this.fluxHistory.reduce((a, f) => a + f.flux, 0) / this.fluxHistory.length;
+    const lastOnset = this.onsets.length ? this.onsets[this.onsets.length - 1] : -Infinity;
+    const onset = this.fluxHistory.length > 3
+      && flux > meanFlux * 1.5 + 0.5
+      && time - lastOnset >= MIN_ONSET_GAP;
+
+    if (onset) {
+      this.onsets.push(time);
+      while (this.onsets.length && this.onsets[0] < time - ONSET_MEMORY) this.onsets.shift();
+      this.tempo = this.estimateTempo() ?? this.tempo;
+    }
+
+    // 4. Beat clock: free-running at the estimated tempo, re-anchored by onsets near a beat
+    let beat = false;
+    if (this.tempo) {
+      const period = 60 / this.tempo;
+      if (this.nextBeat === null) this.nextBeat = time + period;
+
+      if (onset && Math.abs(time - this.nextBeat) < period * 0.2) {
+        // On-time attack: snap the clock onto it
+        this.nextBeat = time;
+      }
+      if (time >= this.nextBeat) {
+        beat = true;
+        while (this.nextBeat <= time) this.nextBeat += period;
+      }
+    }
+
+    return {
+      time,
+      energy,
+      centroid,
+      brightness,
+      onset,
+      onsetStrength: flux,
+      tempo: this.tempo,
+      beat
+    };
+  }
+
+  // Vote every pair of recent onsets into a tempo histogram. Intervals are folded by
+  // octaves into [minTempo, 2 * minTempo) so half/double time agree with each other.
+  private estimateTempo(): number | null {
+    if (this.onsets.length < 4) return null;
+    const lo = this.minTempo;
+    const hi = this.minTempo * 2;
+    const votes = new Float32Array(Math.ceil(hi - lo) + 1);
+
+    for (let i = 0; i < this.onsets.length; i++) {
+      for (let j = i + 1; j < this.onsets.length; j++) {
+        const interval = this.onsets[j] - this.onsets[i];
+        if (interval < 0.2 || interval > 3) continue;
+        let bpm = 60 / interval;
+        while (bpm < lo) bpm *= 2;
+        while (bpm >= hi) bpm /= 2;
+        // Nearer pairs are more reliable than ones spanning several beats
+        const weight = 1 / (j - i);
+        const bin = bpm - lo;
+        // Spread over neighbouring bins to absorb timing jitter
+        for (let b = Math.max(0, Math.floor(bin) - 2); b <= Math.min(votes.length - 1, Math.ceil(bin) + 2); b++) {
+          votes[b] += weight * Math.exp(-((b - bin) ** 2) / 2);
+        }
+      }
+    }
+
+    let best = -1;
+    let bestVotes = 0;
+    for (let b = 0; b < votes.length; b++) {
+      if (votes[b] > bestVotes) {
+        bestVotes = votes[b];
+        best = b;
+      }
+    }
+    return best >= 0 ? lo + best : null;
+  }
+}
+
+// Offline analysis of a decoded buffer (e.g. AudioBuffer.getChannelData(0), or PCM read in Node)
+export const analyzePCM = (
+  samples: Float32Array,
+  sampleRate: number,
+  options: FeatureExtractorOptions & { hopSize?: number } = {}
+): { frames: AudioFeatures[]; tempo: number | null; onsets: number[]; beats: number[] } => {
+  const extractor = new AudioFeatureExtractor(options);
+  const frameSize = options.frameSize ?? 1024;
+  const hop = options.hopSize ?? frameSize / 2;
+  const frames: AudioFeatures[] = [];
+
+  for (let start = 0; start + frameSize <= samples.length; start += hop) {
+    const frame = samples.subarray(start, start + frameSize);
+    // Timestamp the end of the frame, like a live analyser would
+    frames.push(extractor.process(frame, sampleRate, (start + frameSize) / sampleRate));
+  }
+
+  return {
+    frames,
+    tempo: frames.length ? frames[frames.length - 1].tempo : null,
+    onsets: frames.filter(f => f.onset).map(f => f.time),
+    beats: frames.filter(f => f.beat).map(f => f.time)
+  };
+};
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// In-place iterative radix-2 FFT
+const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const angle = step * k;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const a = start + k;
+        const b = a + half;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+};
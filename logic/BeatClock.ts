@@ -0,0 +1,104 @@
+import { BeatDivision, BeatPosition } from '../types';
+
+// Musical time for the scheduler: maps wall-clock seconds to bars, beats and subdivisions.
+// Tempo changes keep the current position continuous; tap() and setBeatPhase() move the
+// grid so it lines up with a DJ's track.
+
+const TAP_RESET_GAP = 2.0; // Seconds without a tap before a new tap sequence starts
+const TAP_HISTORY = 8;
+
+export class BeatClock {
+  public bpm: number;
+  public beatsPerBar: number;
+  public phaseOffset = 0; // Beats, added on top of the aligned grid
+
+  // Time (seconds) at which beat 0 fell
+  private origin: number;
+  private taps: number[] = [];
+
+  constructor(bpm: number, beatsPerBar: number = 4, time: number = 0) {
+    this.bpm = bpm;
+    this.beatsPerBar = beatsPerBar;
+    this.origin = time;
+  }
+
+  // Change tempo without jumping: the beat count at `time` stays the same
+  public setTempo(bpm: number, time: number) {
+    if (bpm === this.bpm || bpm <= 0) return;
+    const beats = this.rawBeats(time);
+    this.bpm = bpm;
+    this.origin = time - (beats * 60) / bpm;
+  }
+
+  // Total beats elapsed (fractional)
+  public getBeats(time: number): number {
+    return this.rawBeats(time) + this.phaseOffset;
+  }
+
+  public getPosition(time: number): BeatPosition {
+    const totalBeats = this.getBeats(time);
+    const wholeBeats = Math.floor(totalBeats);
+    const phase = totalBeats - wholeBeats;
+    return {
+      bar: Math.floor(wholeBeats / this.beatsPerBar),
+      beat: ((wholeBeats % this.beatsPerBar) + this.beatsPerBar) % this.beatsPerBar,
+      subdivision: Math.floor(phase * 4), // 16th notes
+      phase,
+      totalBeats
+    };
+  }
+
+  // True if a grid line of the given division fell in (prevTime, time]
+  public crossed(division: BeatDivision, prevTime: number, time: number): boolean {
+    const size = this.divisionBeats(division);
+    return Math.floor(this.getBeats(time) / size) > Math.floor(this.getBeats(prevTime) / size);
+  }
+
+  public getDivisionSeconds(division: BeatDivision): number {
+    return (this.divisionBeats(division) * 60) / this.bpm;
+  }
+
+  // Tap tempo. Each tap also puts a beat boundary right on the tap.
+  // Returns the new BPM once two or more taps have been heard.
+  public tap(time: number): number | null {
+    const last = this.taps[this.taps.length - 1];
+    if (last !== undefined && time - last > TAP_RESET_GAP) this.taps = [];
+    this.taps.push(time);
+    if (this.taps.length > TAP_HISTORY) this.taps.shift();
+
+    let bpm: number | null = null;
+    if (this.taps.length >= 2) {
+      const span = this.taps[this.taps.length - 1] - this.taps[0];
+      bpm = (60 * (this.taps.length - 1)) / span;
+      this.bpm = bpm;
+    }
+    this.setBeatPhase(0, time);
+    return bpm;
+  }
+
+  // Declare where in the beat we are right now (phase 0 = on the beat).
+  // Optionally also which beat of the bar (0-based), to fix the downbeat.
+  public setBeatPhase(phase: number, time: number, beatInBar?: number) {
+    const current = this.getBeats(time);
+    let wholeBeats = Math.round(current - phase);
+    if (beatInBar !== undefined) {
+      const bar = Math.floor(wholeBeats / this.beatsPerBar);
+      wholeBeats = bar * this.beatsPerBar + (beatInBar % this.beatsPerBar);
+    }
+    const target = wholeBeats + phase - this.phaseOffset;
+    this.origin = time - (target * 60) / this.bpm;
+  }
+
+  private rawBeats(time: number): number {
+    return ((time - this.origin) * this.bpm) / 60;
+  }
+
+  private divisionBeats(division: BeatDivision): number {
+    switch (division) {
+      case 'bar': return this.beatsPerBar;
+      case 'beat': return 1;
+      case 'eighth': return 0.5;
+      case 'sixteenth': return 0.25;
+    }
+  }
+}
@@ -0,0 +1,290 @@
+import * as THREE from 'three';
+import { CameraPath, GameConfig } from '../types';
+import { EASINGS } from './Tween';
+
+// Places the camera every frame: a base pose from cameraMode (orbit, manual or a keyframed
+// path), eased over when the mode or path changes, then the reactive moves on top
+// (follow, punch-in, beat shake, dolly).
+
+export interface RigContext {
+  time: number;        // Milliseconds (performance.now), drives the orbit
+  beatSeconds: number;
+  beatPhase: number;   // 0 to 1 through the current beat
+  totalBeats: number;
+  boardCenter: THREE.Vector3;
+  piece: THREE.Vector3 | null; // World position of the falling piece, if there is one
+}
+
+interface Pose {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  fov: number;  // Degrees
+  roll: number; // Degrees
+}
+
+// A path resolved for sampling: keyframes sorted, defaults filled in, one row of
+// [px, py, pz, tx, ty, tz, fov, roll] per keyframe
+interface PreparedPath {
+  source: CameraPath;
+  fov: number;    // The default it was prepared with
+  times: number[];
+  values: number[][];
+  length: number; // Loop length (0 when not looping)
+}
+
+const DEFAULT_FOV = 60;
+const MODE_BLEND_SECONDS = 1; // Glide between modes and paths instead of cutting
+const FOLLOW_RATE = 3;        // 1/s, how quickly follow catches up with the piece
+const FOLLOW_TRUCK = 0.6;     // How much of the follow offset the camera itself moves (the rest is panning)
+const PUNCH_DEPTH = 0.35;     // Share of the distance to the target covered at full punch
+const PUNCH_DECAY = 4;        // 1/s
+const SHAKE_AMPLITUDE = 0.8;  // Cells, right on the beat at full shake
+const DOLLY_DEPTH = 0.3;      // Share of the distance covered at the dolly's deepest
+const DOLLY_PERIOD = 40;      // Seconds for one drift in and back out
+
+// --- BUILT-IN PATHS ---
+// Functions of the board size so they frame any board. The result is plain data:
+// it goes into cameraPath and is saved with presets like any other path.
+
+const distanceFor = (rows: number, cols: number) => Math.max(rows * 1.5, cols * 1.5, 30);
+
+export const CAMERA_PATHS: Record<string, (rows: number, cols: number) => CameraPath> = {
+  front: rows => ({ keyframes: [{ time: 0, position: [0, 10, Math.max(rows * 1.5, 30)] }] }),
+  iso: () => ({ keyframes: [{ time: 0, position: [20, 25, 30] }] }),
+  top: () => ({ keyframes: [{ time: 0, position: [0, 45, 5] }] }),
+  dutch: (rows, cols) => ({ keyframes: [{ time: 0, position: [-8, 6, distanceFor(rows, cols)], roll: 12, fov: 50 }] }),
+  sweep: (rows, cols) => {
+    const d = distanceFor(rows, cols);
+    return {
+      loop: true,
+      duration: 32,
+      keyframes: [
+        { time: 0, position: [-25, 14, d * 0.8] },
+        { time: 8, position: [0, 10, d] },
+        { time: 16, position: [25, 14, d * 0.8] },
+        { time: 24, position: [0, 18, d * 1.1] }
+      ]
+    };
+  },
+  crane: (rows, cols) => {
+    const d = distanceFor(rows, cols);
+    return {
+      loop: true,
+      duration: 24,
+      keyframes: [
+        { time: 0, position: [0, 2, d * 0.8], target: [0, 7, 0], fov: 65 },
+        { time: 12, position: [0, 35, d * 0.7], target: [0, 10, 0], fov: 55 }
+      ]
+    };
+  }
+};
+
+export const getCameraPathNames = (): string[] => Object.keys(CAMERA_PATHS);
+
+export const buildCameraPath = (name: string, rows: number, cols: number): CameraPath | null => {
+  const build = CAMERA_PATHS[name];
+  return build ? build(rows, cols) : null;
+};
+
+// --- SAMPLING ---
+
+// Uniform Catmull-Rom: passes through p1 at t = 0 and p2 at t = 1
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, t: number): number => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return 0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (3 * p1 - p0 - 3 * p2 + p3) * t3);
+};
+
+const preparePath = (path: CameraPath, center: THREE.Vector3, fov: number): PreparedPath => {
+  const keyframes = [...path.keyframes].sort((a, b) => a.time - b.time);
+  const times = keyframes.map(k => k.time);
+  const values = keyframes.map(k => {
+    const target = k.target ?? [center.x, center.y, center.z];
+    return [...k.position, ...target, k.fov ?? fov, k.roll ?? 0];
+  });
+  const last = times[times.length - 1] ?? 0;
+  // Without a duration, the way back to the first keyframe takes as long as an average step
+  const step = times.length > 1 ? (last - times[0]) / (times.length - 1) : 1;
+  const length = path.loop ? Math.max(path.duration ?? last + step, last) : 0;
+  return { source: path, fov, times, values, length };
+};
+
+const samplePath = (prepared: PreparedPath, time: number, out: Pose) => {
+  const { times, values, length } = prepared;
+  const n = times.length;
+  let row: number[];
+
+  if (n === 1) {
+    row = values[0];
+  } else {
+    const loop = length > 0;
+    const t = loop ? ((time % length) + length) % length : Math.min(Math.max(time, times[0]), times[n - 1]);
+
+    // Segment i runs from keyframe i to i + 1 (or back to 0 on a loop's last segment)
+    let i = 0;
+    while (i < n - 1 && times[i + 1] <= t) i++;
+    const wrap = i === n - 1;
+    const start = times[i];
+    const end = wrap ? length : times[i + 1];
+    const u = end > start ? Math.min(1, (t - start) / (end - start)) : 1;
+
+    const index = (k: number) => loop ? ((k % n) + n) % n : Math.min(Math.max(k, 0), n - 1);
+    const [a, b, c, d] = [values[index(i - 1)], values[index(i)], values[index(i + 1)], values[index(i + 2)]];
+    const linear = prepared.source.interpolation === 'linear';
+    row = b.map((_, k) => linear ? b[k] + (c[k] - b[k]) * u : catmullRom(a[k], b[k], c[k], d[k], u));
+  }
+
+  out.position.set(row[0], row[1], row[2]);
+  out.target.set(row[3], row[4], row[5]);
+  out.fov = row[6];
+  out.roll = row[7];
+};
+
+// Stable pseudo-random number in -1..1 for beat n
+const beatNoise = (n: number, salt: number): number => {
+  const x = Math.sin(n * 12.9898 + salt * 78.233) * 43758.5453;
+  return (x - Math.floor(x)) * 2 - 1;
+};
+
+const makePose = (): Pose => ({ position: new THREE.Vector3(), target: new THREE.Vector3(), fov: DEFAULT_FOV, roll: 0 });
+
+export class CameraRig {
+  private camera: THREE.PerspectiveCamera;
+  private base = makePose();   // From the mode, before reactive moves
+  private pose = makePose();   // What the camera gets
+  private from = makePose();   // Where a mode/path change glides from
+  private blend = 1;           // 0 to 1 through that glide
+  private hasPose = false;
+  private modeKey: unknown = null;
+
+  private path: PreparedPath | null = null;
+  private pathTime = 0;        // Seconds or beats, per the path's timing
+
+  private followOffset = new THREE.Vector3();
+  private punchLevel = 0;
+  private dollyTime = 0;
+
+  // Scratch
+  private offset = new THREE.Vector3();
+  private desired = new THREE.Vector3();
+
+  constructor(camera: THREE.PerspectiveCamera) {
+    this.camera = camera;
+  }
+
+  // A line clear: push in, harder for more rows
+  public punch(rows: number) {
+    this.punchLevel = Math.max(this.punchLevel, Math.min(1, 0.5 + rows * 0.125));
+  }
+
+  public update(config: GameConfig, dt: number, context: RigContext) {
+    const step = Math.max(0, dt);
+    const fov = config.cameraFov ?? DEFAULT_FOV;
+
+    // 1. Base pose
+    const path = config.cameraMode === 'path' && config.cameraPath?.keyframes?.length ? config.cameraPath : null;
+    const modeKey = path ?? config.cameraMode;
+    if (modeKey !== this.modeKey) {
+      // Glide from wherever the camera was (not the first frame, there's nowhere to come from)
+      if (this.hasPose && !this.samePath(path)) {
+        this.copyPose(this.from, this.pose);
+        this.blend = 0;
+      }
+      if (!this.samePath(path)) this.pathTime = 0;
+      this.modeKey = modeKey;
+    }
+
+    const base = this.base;
+    if (path) {
+      if (!this.path || this.path.source !== path || this.path.fov !== fov) {
+        this.path = preparePath(path, context.boardCenter, fov);
+      }
+      this.pathTime += path.timing === 'beats' ? step / context.beatSeconds : step;
+      samplePath(this.path, this.pathTime, base);
+    } else {
+      this.path = null;
+      base.target.copy(context.boardCenter);
+      base.fov = fov;
+      base.roll = 0;
+      if (config.cameraMode === 'orbit') {
+        // We scale distance so the whole board fits, but the target remains the center
+        const angle = context.time * 0.0001 * config.rotationSpeed;
+        const dist = Math.max(config.gridRows * 1.5, 35);
+        base.position.set(
+          Math.sin(angle) * dist,
+          context.boardCenter.y + Math.sin(angle * 0.5) * 5, // Slight bobbing relative to center
+          Math.cos(angle) * dist
+        );
+      } else {
+        // Manual, or a path with no keyframes
+        base.position.set(config.cameraX, config.cameraY, config.cameraZ);
+      }
+    }
+    this.hasPose = true;
+
+    // 2. Ease over from the previous mode or path
+    const pose = this.pose;
+    this.copyPose(pose, base);
+    if (this.blend < 1) {
+      this.blend = Math.min(1, this.blend + step / MODE_BLEND_SECONDS);
+      const k = EASINGS.easeInOut(this.blend);
+      pose.position.lerpVectors(this.from.position, base.position, k);
+      pose.target.lerpVectors(this.from.target, base.target, k);
+      pose.fov = this.from.fov + (base.fov - this.from.fov) * k;
+      pose.roll = this.from.roll + (base.roll - this.from.roll) * k;
+    }
+
+    // 3. Reactive moves
+    // Follow: pan toward the piece, trucking part of the way with it
+    const follow = Math.min(1, Math.max(0, config.cameraFollow ?? 0));
+    this.desired.set(0, 0, 0);
+    if (follow > 0 && context.piece) {
+      this.desired.subVectors(context.piece, context.boardCenter).setZ(0).multiplyScalar(follow);
+    }
+    this.followOffset.lerp(this.desired, 1 - Math.exp(-step * FOLLOW_RATE));
+    pose.target.add(this.followOffset);
+    pose.position.addScaledVector(this.followOffset, FOLLOW_TRUCK);
+
+    // Dolly and punch both move the camera along its line of sight
+    this.dollyTime += step;
+    const dolly = (config.cameraDolly ?? 0) * DOLLY_DEPTH * (0.5 - 0.5 * Math.cos((this.dollyTime / DOLLY_PERIOD) * Math.PI * 2));
+    this.punchLevel *= Math.exp(-step * PUNCH_DECAY);
+    const punch = (config.cameraPunch ?? 0) * PUNCH_DEPTH * this.punchLevel;
+    this.offset.subVectors(pose.target, pose.position);
+    pose.position.addScaledVector(this.offset, Math.min(0.9, dolly + punch));
+
+    // Shake: a jolt on the beat that rattles out before the next one
+    const shake = config.cameraShake ?? 0;
+    if (shake > 0) {
+      const beat = Math.floor(context.totalBeats);
+      const amplitude = shake * SHAKE_AMPLITUDE * (1 - context.beatPhase) ** 3 * Math.cos(context.beatPhase * Math.PI * 6);
+      this.offset.set(beatNoise(beat, 1), beatNoise(beat, 2), 0).multiplyScalar(amplitude);
+      pose.position.add(this.offset);
+      pose.target.addScaledVector(this.offset, 0.5);
+      pose.roll += beatNoise(beat, 3) * amplitude * 2;
+    }
+
+    // 4. Apply
+    const camera = this.camera;
+    camera.position.copy(pose.position);
+    camera.up.set(0, 1, 0);
+    camera.lookAt(pose.target);
+    if (pose.roll !== 0) camera.rotateZ(THREE.MathUtils.degToRad(pose.roll));
+    if (camera.fov !== pose.fov) {
+      camera.fov = pose.fov;
+      camera.updateProjectionMatrix();
+    }
+  }
+
+  // Same path content under a new object (e.g. a config round-tripped through a preset)
+  private samePath(path: CameraPath | null): boolean {
+    return !!path && !!this.path && JSON.stringify(path) === JSON.stringify(this.path.source);
+  }
+
+  private copyPose(to: Pose, from: Pose) {
+    to.position.copy(from.position);
+    to.target.copy(from.target);
+    to.fov = from.fov;
+    to.roll = from.roll;
+  }
+}
@@ -0,0 +1,213 @@
+import { CameraKeyframe, CameraPath, GameConfig } from '../types';
+
+// What every GameConfig field may hold. Used to check configs that come from outside
+// (preset files, share links, storage): wrong types are dropped, numbers are clamped.
+
+export const DEFAULT_CONFIG: GameConfig = {
+  // --- USER REQUESTED PRESETS ---
+  bpm: 60,
+  temperature: 0.36,
+  bloomStrength: 0.9,
+  opacity: 0.15,
+  gridVisible: true,
+  fogDensity: 0,
+  gridRows: 18,
+  gridCols: 20,
+  seed: 0,
+  beatSync: false,
+  beatsPerBar: 4,
+  beatPhaseOffset: 0,
+  spawnOn: 'beat',
+  moveOn: 'sixteenth',
+  lockOn: 'beat',
+  aiStrategy: 'greedy',
+  aiWeights: {},
+  aiMistakeRate: 0.1,
+  targetImage: [],
+  targetCompleteAction: 'celebrate',
+  minLinesToClear: 1,
+  enableLineClear: false,
+  cameraMode: 'manual',
+  rotationSpeed: 0.5,
+  cameraX: 0,
+  cameraY: 10,
+  cameraZ: 22,
+  cameraFov: 60,
+  cameraPath: null,
+  cameraFollow: 0,
+  cameraPunch: 0,
+  cameraShake: 0,
+  cameraDolly: 0,
+  visualStyle: 'matrix',
+  flowSpeed: 3.5,
+  flowHue: 0,
+  flowSaturation: 0,
+  flowScale: 0,
+  flowExtrude: 0,
+  flowOpacity: 0,
+  customGrid: [],
+  blockRoughness: 0.1,
+  blockMetalness: 0.5,
+  blockTransmission: 0.2,
+  blockThickness: 1,
+  environmentDimming: 0
+};
+
+type FieldRule =
+  | { kind: 'number'; min: number; max: number; integer?: boolean }
+  | { kind: 'boolean' }
+  | { kind: 'enum'; values: readonly string[] }
+  | { kind: 'string' }
+  // Structured values: returns the cleaned value, or undefined to reject it
+  | { kind: 'custom'; clean: (value: unknown) => unknown };
+
+const num = (min: number, max: number, integer = false): FieldRule => ({ kind: 'number', min, max, integer });
+const oneOf = (...values: string[]): FieldRule => ({ kind: 'enum', values });
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isVector = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber);
+
+const BEAT_DIVISION = oneOf('bar', 'beat', 'eighth', 'sixteenth');
+
+// Keyframes that can't be flown are dropped; a path left with none is rejected
+const cleanCameraPath = (value: unknown): CameraPath | null | undefined => {
+  if (value === null) return null;
+  if (!value || typeof value !== 'object' || !Array.isArray((value as CameraPath).keyframes)) return undefined;
+  const path = value as CameraPath;
+  const keyframes = path.keyframes.filter((k: CameraKeyframe) =>
+    k && isFiniteNumber(k.time) && isVector(k.position) &&
+    (k.target === undefined || isVector(k.target)) &&
+    (k.fov === undefined || isFiniteNumber(k.fov)) &&
+    (k.roll === undefined || isFiniteNumber(k.roll))
+  );
+  return keyframes.length > 0 ? { ...path, keyframes } : undefined;
+};
+
+const FIELD_RULES: Record<keyof GameConfig, FieldRule> = {
+  bpm: num(10, 1000),
+  enableLineClear: { kind: 'boolean' },
+  minLinesToClear: num(1, 4, true),
+  gridRows: num(4, 80, true),
+  gridCols: num(4, 40, true),
+  seed: num(0, 0xffffffff, true),
+
+  beatSync: { kind: 'boolean' },
+  beatsPerBar: num(1, 16, true),
+  beatPhaseOffset: num(-0.5, 0.5),
+  spawnOn: BEAT_DIVISION,
+  moveOn: BEAT_DIVISION,
+  lockOn: BEAT_DIVISION,
+
+  aiStrategy: oneOf('greedy', 'lookahead', 'dellacherie', 'chaotic', 'picture'),
+  aiWeights: {
+    kind: 'custom',
+    clean: value => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+      return Object.fromEntries(Object.entries(value).filter(([, weight]) => isFiniteNumber(weight)));
+    }
+  },
+  aiMistakeRate: num(0, 1),
+
+  targetImage: {
+    kind: 'custom',
+    clean: value => Array.isArray(value) && value.every(row => typeof row === 'string') ? value : undefined
+  },
+  targetCompleteAction: oneOf('celebrate', 'reset'),
+
+  cameraMode: oneOf('orbit', 'manual', 'path'),
+  cameraX: num(-500, 500),
+  cameraY: num(-500, 500),
+  cameraZ: num(-500, 500),
+  rotationSpeed: num(-20, 20),
+  cameraFov: num(10, 150),
+  cameraPath: { kind: 'custom', clean: cleanCameraPath },
+  cameraFollow: num(0, 1),
+  cameraPunch: num(0, 1),
+  cameraShake: num(0, 1),
+  cameraDolly: num(0, 1),
+
+  temperature: num(0, 1),
+  bloomStrength: num(0, 5),
+  opacity: num(0, 1),
+  gridVisible: { kind: 'boolean' },
+  fogDensity: num(0, 0.5),
+
+  visualStyle: { kind: 'string' }, // Registered styles can have any name
+  flowSpeed: num(0, 20),
+  flowHue: num(-1, 1),
+  flowSaturation: num(-1, 1),
+  flowScale: num(-1, 1),
+  flowExtrude: num(-2, 2),
+  flowOpacity: num(-1, 1),
+
+  customGrid: {
+    kind: 'custom',
+    // Unreadable cells become 0 rather than losing the whole picture
+    clean: value => Array.isArray(value) && value.every(Array.isArray)
+      ? value.map((row: unknown[]) => row.map(cell => isFiniteNumber(cell) ? cell : 0))
+      : undefined
+  },
+
+  blockRoughness: num(0, 1),
+  blockMetalness: num(0, 1),
+  blockTransmission: num(0, 1),
+  blockThickness: num(0, 10),
+  environmentDimming: num(0, 1)
+};
+
+export interface SanitizedConfig {
+  config: Partial<GameConfig>;
+  warnings: string[]; // One per field that was dropped or changed
+}
+
+// Keep the fields that make sense, clamped to their ranges. Never throws.
+export const sanitizeConfig = (input: unknown): SanitizedConfig => {
+  const config: Record<string, unknown> = {};
+  const warnings: string[] = [];
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { config, warnings: ['Config is not an object'] };
+  }
+
+  for (const [key, value] of Object.entries(input)) {
+    const rule = FIELD_RULES[key as keyof GameConfig];
+    if (!rule) {
+      warnings.push(`Unknown field '${key}' ignored`);
+      continue;
+    }
+
+    switch (rule.kind) {
+      case 'number': {
+        if (!isFiniteNumber(value)) {
+          warnings.push(`'${key}' should be a number`);
+          break;
+        }
+        let clean = Math.min(rule.max, Math.max(rule.min, value));
+        if (rule.integer) clean = Math.round(clean);
+        if (clean !== value) warnings.push(`'${key}' ${value} adjusted to ${clean}`);
+        config[key] = clean;
+        break;
+      }
+      case 'boolean':
+        if (typeof value === 'boolean') config[key] = value;
+        else warnings.push(`'${key}' should be true or false`);
+        break;
+      case 'enum':
+        if (typeof value === 'string' && rule.values.includes(value)) config[key] = value;
+        else warnings.push(`'${key}' should be one of ${rule.values.join(', ')}`);
+        break;
+      case 'string':
+        if (typeof value === 'string') config[key] = value;
+        else warnings.push(`'${key}' should be a string`);
+        break;
+      case 'custom': {
+        const clean = rule.clean(value);
+        if (clean !== undefined) config[key] = clean;
+        else warnings.push(`'${key}' is malformed`);
+        break;
+      }
+    }
+  }
+
+  return { config: config as Partial<GameConfig>, warnings };
+};
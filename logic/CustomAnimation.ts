@@ -0,0 +1,113 @@
+import { CustomAnimation, CustomFrame } from '../types';
+
+// Plays a sequence of customGrid frames for the 'custom' style.
+// Frames last a number of seconds or beats (converted at the current tempo every frame,
+// so beat-timed frames follow tempo changes), and can crossfade into the next one.
+//
+// A looping animation cycles forever. A non-looping one is a queue: played frames are
+// dropped and the last one holds until pushCustomFrame adds more, which makes it a live feed.
+
+const DEFAULT_FRAME_SECONDS = 0.1;
+const MIN_FRAME_SECONDS = 1 / 120; // Keeps zero-length frames from spinning the advance loop
+const MAX_STEP = 1;                // Seconds. A backgrounded tab doesn't fast-forward the animation.
+const DIM = 0.1;                   // What 'custom' shows for cells outside a frame
+const EMPTY: number[][] = [];
+
+export class CustomAnimationPlayer {
+  public loop: boolean;
+  public interpolate: boolean;
+
+  private frames: CustomFrame[];
+  private index = 0;
+  private elapsed = 0; // Seconds into the current frame
+  private holding = false;
+
+  constructor(animation: CustomAnimation) {
+    this.frames = [...animation.frames];
+    this.loop = animation.loop ?? true;
+    this.interpolate = animation.interpolate ?? false;
+  }
+
+  public push(frame: CustomFrame) {
+    this.frames.push(frame);
+  }
+
+  public get frameCount(): number {
+    return this.frames.length;
+  }
+
+  // A non-looping animation has played its last frame out (and is holding it)
+  public get finished(): boolean {
+    return this.holding;
+  }
+
+  // Move playback on by dt seconds
+  public advance(dt: number, beatSeconds: number) {
+    if (this.frames.length === 0) return;
+    this.elapsed += Math.min(Math.max(dt, 0), MAX_STEP);
+    this.holding = false;
+
+    for (;;) {
+      const length = this.frameSeconds(this.index, beatSeconds);
+      if (this.elapsed < length) break;
+      const last = this.index >= this.frames.length - 1;
+      if (last && !this.loop) {
+        // Hold the last frame until more arrive
+        this.elapsed = length;
+        this.holding = true;
+        break;
+      }
+      this.elapsed -= length;
+      this.index = last ? 0 : this.index + 1;
+    }
+
+    if (!this.loop && this.index > 0) {
+      this.frames.splice(0, this.index);
+      this.index = 0;
+    }
+  }
+
+  // The grid to show right now. Returns the frame's own array unless it's mid-crossfade,
+  // so callers can skip work while the reference doesn't change.
+  public current(beatSeconds: number): number[][] {
+    const frame = this.frames[this.index];
+    if (!frame) return EMPTY;
+    if (!this.interpolate) return frame.grid;
+
+    const last = this.index >= this.frames.length - 1;
+    const nextIndex = last ? (this.loop ? 0 : -1) : this.index + 1;
+    if (nextIndex < 0 || nextIndex === this.index) return frame.grid;
+
+    const t = this.elapsed / this.frameSeconds(this.index, beatSeconds);
+    if (t <= 0) return frame.grid;
+    return blendGrids(frame.grid, this.frames[nextIndex].grid, Math.min(1, t));
+  }
+
+  private frameSeconds(index: number, beatSeconds: number): number {
+    const frame = this.frames[index];
+    const seconds = frame.beats !== undefined ? frame.beats * beatSeconds : frame.duration ?? DEFAULT_FRAME_SECONDS;
+    return Math.max(MIN_FRAME_SECONDS, seconds);
+  }
+}
+
+// Cell-by-cell crossfade. Both grids are bottom-aligned, like 'custom' reads them,
+// and a cell missing from one side fades from or to the dim background.
+const blendGrids = (a: number[][], b: number[][], t: number): number[][] => {
+  const rows = Math.max(a.length, b.length);
+  const offsetA = rows - a.length;
+  const offsetB = rows - b.length;
+  const result: number[][] = [];
+  for (let r = 0; r < rows; r++) {
+    const rowA = a[r - offsetA] ?? [];
+    const rowB = b[r - offsetB] ?? [];
+    const cols = Math.max(rowA.length, rowB.length);
+    const row = new Array<number>(cols);
+    for (let c = 0; c < cols; c++) {
+      const from = rowA[c] ?? DIM;
+      const to = rowB[c] ?? DIM;
+      row[c] = from + (to - from) * t;
+    }
+    result.push(row);
+  }
+  return result;
+};
@@ -0,0 +1,206 @@
+import { GameConfig, SHAPES } from '../types';
+import { DEFAULT_CONFIG } from './ConfigSchema';
+
+// Presets that ship with the app. Read-only: PresetManager serves them when storage has
+// nothing by that name, and cloning one saves an editable copy to storage.
+// Each is a full preset, so anything it leaves out takes the default.
+
+export interface FactoryPreset {
+  name: string;
+  description: string;
+  config: Partial<GameConfig>;
+}
+
+export const FACTORY_PRESETS: FactoryPreset[] = [
+  {
+    name: 'default',
+    description: 'The out-of-the-box look',
+    config: DEFAULT_CONFIG
+  },
+  {
+    name: 'synthwave',
+    description: 'Hot pink waves rolling toward a low horizon',
+    config: {
+      bpm: 110,
+      temperature: 0.85,
+      bloomStrength: 1.8,
+      opacity: 0.2,
+      fogDensity: 0.02,
+      visualStyle: 'wave',
+      flowSpeed: 2,
+      flowHue: 0.1,
+      flowExtrude: 0.6,
+      cameraMode: 'manual',
+      cameraX: 0,
+      cameraY: 3,
+      cameraZ: 26,
+      cameraShake: 0.2,
+      environmentDimming: 0.4
+    }
+  },
+  {
+    name: 'vaporwave glass',
+    description: 'Slow plasma through thick pastel glass',
+    config: {
+      bpm: 70,
+      temperature: 0.6,
+      bloomStrength: 1.2,
+      opacity: 0.35,
+      visualStyle: 'plasma',
+      flowSpeed: 1.5,
+      flowHue: 0.15,
+      flowScale: 0.1,
+      cameraMode: 'orbit',
+      rotationSpeed: 0.2,
+      blockRoughness: 0.05,
+      blockMetalness: 0.1,
+      blockTransmission: 0.9,
+      blockThickness: 2
+    }
+  },
+  {
+    name: 'matrix rain',
+    description: 'Bright heads falling down grey columns',
+    config: {
+      bpm: 120,
+      temperature: 0.2,
+      bloomStrength: 1.5,
+      fogDensity: 0.04,
+      gridVisible: false,
+      visualStyle: 'matrix',
+      flowSpeed: 4,
+      flowSaturation: 1,
+      flowOpacity: 0.6,
+      enableLineClear: true
+    }
+  },
+  {
+    name: 'ember',
+    description: 'A smouldering stack, hottest at the bottom',
+    config: {
+      bpm: 90,
+      temperature: 1,
+      bloomStrength: 2,
+      fogDensity: 0.03,
+      visualStyle: 'fire',
+      flowSpeed: 2.5,
+      flowHue: -0.05,
+      flowScale: 0.15,
+      cameraPunch: 0.3,
+      blockMetalness: 0.7,
+      environmentDimming: 0.5
+    }
+  },
+  {
+    name: 'minimal mono',
+    description: 'Grey blocks, one colored scanline, no glow',
+    config: {
+      bpm: 80,
+      temperature: 0.5,
+      bloomStrength: 0.3,
+      opacity: 0.1,
+      gridVisible: false,
+      visualStyle: 'scanline',
+      flowSpeed: 1,
+      flowSaturation: 1,
+      aiStrategy: 'dellacherie',
+      enableLineClear: true,
+      blockRoughness: 0.4,
+      blockMetalness: 0.8,
+      blockTransmission: 0,
+      environmentDimming: 0.6
+    }
+  }
+];
+
+export const getFactoryPreset = (name: string): FactoryPreset | undefined =>
+  FACTORY_PRESETS.find(preset => preset.name === name);
+
+// --- THUMBNAILS ---
+// A small SVG of a stacked board, colored and lit the way the config would render it.
+// Styles are approximated on the CPU at a fixed moment; registered styles show unlit.
+
+const THUMB_COLS = 12;
+const THUMB_ROWS = 9;
+const THUMB_CELL = 8;
+
+// Column heights and piece types for the sample stack (bottom row first)
+const STACK_HEIGHTS = [3, 4, 4, 2, 5, 6, 5, 3, 3, 4, 2, 1];
+const STACK_TYPES = 'IJLOSTZ';
+
+type ThumbPattern = (x: number, y: number, nx: number, ny: number) => number;
+
+const T = 1.5; // The moment sampled, in flow time
+
+const THUMB_PATTERNS: Record<string, ThumbPattern> = {
+  wave: (x, y, nx, ny) => 1.2 + 0.8 * Math.sin(nx * 3 + ny * 3 - T),
+  plasma: (x, y, nx, ny) => 1.2 + 0.6 * (Math.sin(nx * 4 + T) + Math.sin(ny * 4 + T) + Math.sin((nx + ny) * 5 + T)),
+  heart: (x, y, nx, ny) => {
+    const hx = nx * 1.5;
+    const hy = (ny + 0.3) * 1.5;
+    const a = hx * hx + hy * hy - 1;
+    return a * a * a - hx * hx * hy * hy * hy <= 0 ? 4 : 0.1;
+  },
+  matrix: (x, y) => {
+    // One head per column, at a height picked from the column
+    const head = (x * 7 + 3) % (THUMB_ROWS + 4);
+    const dist = head - y;
+    return dist > 0 && dist < 4 ? 2.5 * (1 - dist / 4) : 0.05;
+  },
+  fire: (x, y) => {
+    const turbulence = Math.sin(x * 2 + T * 2) + Math.sin(y * 0.5 - T * 5);
+    const heightFactor = 1 - y / THUMB_ROWS;
+    return Math.max(0.1, heightFactor * heightFactor * 3 + turbulence * 0.5);
+  },
+  scanline: (x, y) => {
+    const dist = Math.abs(y - 2);
+    return dist < 1.5 ? 3 * (1 - dist / 1.5) : 0.1;
+  },
+  sparkle: (x, y) => ((x * 31 + y * 17) % 7 === 0 ? 3 : 0.2)
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+export const getPresetThumbnail = (preset: Partial<GameConfig>): string => {
+  const config = { ...DEFAULT_CONFIG, ...preset };
+  const pattern = THUMB_PATTERNS[config.visualStyle];
+  const baseHue = 0.6 + config.temperature * 0.4; // As SceneManager.getNeonColor
+  const width = THUMB_COLS * THUMB_CELL;
+  const height = THUMB_ROWS * THUMB_CELL;
+
+  const cells: string[] = [];
+  STACK_HEIGHTS.forEach((stackHeight, x) => {
+    for (let y = 0; y < stackHeight; y++) {
+      const type = STACK_TYPES[(x * 3 + y * 5) % STACK_TYPES.length];
+      const nx = (x + 0.5 - THUMB_COLS / 2) / (THUMB_COLS / 2);
+      const ny = (y + 0.5 - THUMB_ROWS / 2) / (THUMB_ROWS / 2);
+      const flow = pattern ? pattern(x, y, nx, ny) : 1;
+      // The flow gains, as in the shader: each channel moves by gain * (flow - 1)
+      const level = flow - 1;
+      const hue = (((baseHue + SHAPES[type].colorOffset + config.flowHue * level) % 1) + 1) % 1;
+      const saturation = clamp01(1 + config.flowSaturation * level);
+      const lightness = 10 + 25 * Math.min(2, Math.max(0, flow));
+      const opacity = clamp01(1 + config.flowOpacity * level);
+      cells.push(
+        `<rect x="${x * THUMB_CELL + 0.5}" y="${height - (y + 1) * THUMB_CELL + 0.5}" width="${THUMB_CELL - 1}" height="${THUMB_CELL - 1}" ` +
+        `fill="hsl(${Math.round(hue * 360)},${Math.round(saturation * 100)}%,${Math.round(lightness)}%)" fill-opacity="${opacity.toFixed(2)}"/>`
+      );
+    }
+  });
+
+  const grid = config.gridVisible
+    ? `<path d="${Array.from({ length: THUMB_COLS - 1 }, (_, i) => `M${(i + 1) * THUMB_CELL} 0V${height}`).join('')}" stroke="#fff" stroke-opacity="0.08"/>`
+    : '';
+  // Bloom: a blurred copy under the sharp cells. Fog: a haze over the board.
+  const glow = config.bloomStrength > 0
+    ? `<filter id="b"><feGaussianBlur stdDeviation="${(config.bloomStrength * 1.5).toFixed(1)}"/></filter>` +
+      `<g filter="url(#b)" opacity="${clamp01(config.bloomStrength / 2).toFixed(2)}">${cells.join('')}</g>`
+    : '';
+  const fog = config.fogDensity > 0
+    ? `<rect width="${width}" height="${height}" fill="#888" fill-opacity="${clamp01(config.fogDensity * 8).toFixed(2)}"/>`
+    : '';
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}">` +
+    `<rect width="${width}" height="${height}" fill="#07050c"/>${grid}${glow}${cells.join('')}${fog}</svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+};
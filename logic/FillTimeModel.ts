@@ -0,0 +1,175 @@
+import { SimulationOptions, simulate } from './HeadlessRunner';
+import { getLineClearDuration, getTickInterval } from './Tempo';
+
+// How long a board takes to fill, measured by simulating the AI rather than guessed.
+// Everything is expressed per piece so it can be re-applied to a half-full board mid-song.
+//
+// Calibrating takes from a fraction of a second to several seconds on big boards, so it runs
+// a slice at a time between frames: loadFillModel resolves once it's done, and peekFillModel
+// answers right away from the cache (null until then).
+
+export interface FillModel {
+  beatsPerPiece: number;    // Ticks + sub-steps per piece, in beats (scales with 60 / bpm)
+  clearsPerPiece: number;   // Clear sequences per piece (fixed-ish duration, see getLineClearDuration)
+  cellsPerPiece: number;    // Net cells added per piece (4 when nothing clears)
+  topOutFill: number;       // Board fill at the moment of top-out (0 to 1)
+  piecesToTopOut: number | null; // null if the AI never topped out (line-clear mode usually)
+}
+
+const CALIBRATION_SEEDS = [101, 202, 303, 404, 505];
+// Long enough for line-clear boards to reach a steady state
+const CALIBRATION_PIECE_LIMIT = 600;
+
+// Milliseconds of calibration per slice, between which the page gets to render
+const SLICE_MS = 8;
+
+export type FillModelAI = Pick<SimulationOptions, 'strategy' | 'aiWeights' | 'mistakeRate'>;
+
+const cache = new Map<string, FillModel>();
+const pending = new Map<string, Promise<FillModel>>();
+
+// Different strategies pack (and so fill) at different rates
+const modelKey = (rows: number, cols: number, enableLineClear: boolean, minLinesToClear: number, ai: FillModelAI) =>
+  `${rows}x${cols}:${enableLineClear ? minLinesToClear : 0}:${JSON.stringify(ai)}`;
+
+// The model if it's been calibrated already, else null
+export const peekFillModel = (
+  rows: number,
+  cols: number,
+  enableLineClear: boolean,
+  minLinesToClear: number,
+  ai: FillModelAI = {}
+): FillModel | null => {
+  return cache.get(modelKey(rows, cols, enableLineClear, minLinesToClear, ai)) ?? null;
+};
+
+// Calibrates in slices (once per board and AI; callers asking meanwhile share the result)
+export const loadFillModel = (
+  rows: number,
+  cols: number,
+  enableLineClear: boolean,
+  minLinesToClear: number,
+  ai: FillModelAI = {}
+): Promise<FillModel> => {
+  const key = modelKey(rows, cols, enableLineClear, minLinesToClear, ai);
+  const cached = cache.get(key);
+  if (cached) return Promise.resolve(cached);
+
+  let job = pending.get(key);
+  if (!job) {
+    job = runInSlices(calibrate(rows, cols, enableLineClear, minLinesToClear, ai)).then(model => {
+      cache.set(key, model);
+      return model;
+    }).finally(() => pending.delete(key));
+    pending.set(key, job);
+  }
+  return job;
+};
+
+// Steps a job for SLICE_MS at a time, yielding to the page in between
+const runInSlices = <T>(job: Generator<void, T>): Promise<T> => new Promise((resolve, reject) => {
+  const slice = () => {
+    const end = performance.now() + SLICE_MS;
+    try {
+      for (;;) {
+        const next = job.next();
+        if (next.done) return resolve(next.value);
+        if (performance.now() >= end) break;
+      }
+    } catch (e) {
+      return reject(e);
+    }
+    setTimeout(slice, 0);
+  };
+  slice();
+});
+
+const calibrate = function* (
+  rows: number,
+  cols: number,
+  enableLineClear: boolean,
+  minLinesToClear: number,
+  ai: FillModelAI
+): Generator<void, FillModel> {
+  // At 60 BPM one tick is one second, so simulated seconds minus clear time = beats
+  const referenceBpm = 60;
+  const clearSeconds = getLineClearDuration(referenceBpm);
+
+  let pieces = 0;
+  let beats = 0;
+  let clears = 0;
+  let netCells = 0;
+  let topOutFillSum = 0;
+  let topOutPieces = 0;
+  let topOuts = 0;
+
+  for (const seed of CALIBRATION_SEEDS) {
+    const stats = yield* simulate({
+      rows, cols, seed, enableLineClear, minLinesToClear, ...ai,
+      bpm: referenceBpm,
+      pieces: CALIBRATION_PIECE_LIMIT
+    });
+    pieces += stats.piecesPlaced;
+    clears += stats.clears;
+    beats += (stats.simulatedSeconds - stats.clears * clearSeconds) / getTickInterval(referenceBpm);
+    netCells += stats.fillRatio * rows * cols;
+    if (stats.toppedOut) {
+      topOuts++;
+      topOutFillSum += stats.fillRatio;
+      topOutPieces += stats.piecesUntilTopOut!;
+    }
+  }
+
+  return {
+    beatsPerPiece: beats / Math.max(pieces, 1),
+    clearsPerPiece: clears / Math.max(pieces, 1),
+    cellsPerPiece: netCells / Math.max(pieces, 1),
+    topOutFill: topOuts ? topOutFillSum / topOuts : 1,
+    piecesToTopOut: topOuts ? topOutPieces / topOuts : null
+  };
+};
+
+// Seconds the AI needs to place `pieces` pieces at `bpm`
+export const estimatePieceSeconds = (model: FillModel, pieces: number, bpm: number): number => {
+  const perPiece = model.beatsPerPiece * getTickInterval(bpm) + model.clearsPerPiece * getLineClearDuration(bpm);
+  return pieces * perPiece;
+};
+
+// Pieces still needed to take the board from `fillRatio` to `targetFill`.
+// Without clears the board grows by a steady cellsPerPiece. With clears growth is noisy,
+// so scale the simulated top-out piece count instead (0 if the AI never topped out:
+// such a board only ends when the song does).
+export const estimateRemainingPieces = (
+  model: FillModel,
+  rows: number,
+  cols: number,
+  fillRatio: number,
+  targetFill: number
+): number => {
+  if (model.clearsPerPiece === 0) {
+    return Math.max(0, ((targetFill - fillRatio) * rows * cols) / Math.max(model.cellsPerPiece, 1));
+  }
+  if (model.piecesToTopOut === null) return 0;
+  return Math.max(0, model.piecesToTopOut * (1 - fillRatio / Math.max(targetFill, 0.01)));
+};
+
+// Tempo at which `pieces` pieces take `seconds`. Time falls monotonically with BPM,
+// so a bisection over the allowed range is exact enough and handles the clamped clear time.
+export const solveBpm = (
+  model: FillModel,
+  pieces: number,
+  seconds: number,
+  range: [number, number]
+): number => {
+  let [lo, hi] = range;
+  if (pieces <= 0 || seconds <= 0) return pieces <= 0 ? lo : hi;
+  if (estimatePieceSeconds(model, pieces, lo) <= seconds) return lo;
+  if (estimatePieceSeconds(model, pieces, hi) >= seconds) return hi;
+
+  for (let i = 0; i < 40; i++) {
+    const mid = (lo + hi) / 2;
+    if (estimatePieceSeconds(model, pieces, mid) > seconds) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
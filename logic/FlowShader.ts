@@ -0,0 +1,435 @@
+import * as THREE from 'three';
+import { BuiltInVisualStyle, GameConfig, SHAPES, StyleFunction, StyleInput, StyleOutput } from '../types';
+
+// Light-flow patterns ('wave', 'plasma', ...) evaluated on the GPU.
+// The cube material's vertex shader computes one flow factor per instance from the
+// cube's cell coordinates and a handful of uniforms, so the CPU only uploads which
+// cells are filled and with what piece color.
+//
+// Each style is the body of a GLSL function returning the emissive multiplier.
+// In scope: `cell` (column, visual row with 0 at the bottom), `n` (cell mapped to
+// roughly -1..1 around the board centre), `t` (time * flowSpeed), `piece` (index of the
+// cube's piece type in SHAPES) and the uniforms below. It may also assign `hueShift`
+// (turns), `scale` and `zOffset` (cells toward the camera).
+//
+// On top of brightness, GameConfig's flow* gains let the same factor drive hue,
+// saturation, scale, z-extrusion and opacity: each moves by gain * (flow - 1), so cells at
+// the neutral flow of 1 (and every cell under 'none') look exactly as they did.
+//
+// registerStyle() adds styles at runtime: GLSL bodies join the built-ins in the shader
+// (one recompile, after the body has compiled on its own), functions run on the CPU and
+// reach the shader through instanceStyle.
+
+export const FLOW_STYLES: Record<string, string> = {
+  wave: `
+    // Diagonal sine wave
+    return 1.2 + 0.8 * sin(n.x * 3.0 + n.y * 3.0 - t);`,
+
+  plasma: `
+    // Multi-sine plasma
+    float v = sin(n.x * 4.0 + t) + sin(n.y * 4.0 + t) + sin((n.x + n.y) * 5.0 + t);
+    return 1.2 + 0.6 * v;`,
+
+  heart: `
+    // Pulsing heart curve: (x^2 + y^2 - 1)^3 - x^2 y^3 <= 0
+    float beat = 1.0 + 0.2 * sin(t * 5.0) + 0.1 * sin(t * 10.0);
+    float hx = n.x * 1.5 * beat;
+    float hy = (n.y + 0.3) * 1.5 * beat;
+    float a = hx * hx + hy * hy - 1.0;
+    return a * a * a - hx * hx * hy * hy * hy <= 0.0 ? 4.0 : 0.1;`,
+
+  matrix: `
+    // Digital rain: a head per column falls from the top with an 8-cell fading trail
+    float colSeed = sin(cell.x * 123.456) * 1000.0;
+    float rows = uFlowGrid.y;
+    float phase = flowRemainder(t * uFlowSpeed * 4.0 + colSeed, rows * 1.5);
+    float dist = rows - phase + rows * 0.25 - cell.y;
+    return dist > 0.0 && dist < 8.0 ? 2.5 * (1.0 - dist / 8.0) : 0.05;`,
+
+  fire: `
+    // Hot at the bottom, cold at the top, with sine turbulence
+    float turbulence = sin(cell.x * 2.0 + t * 2.0) + sin(cell.y * 0.5 - t * 5.0);
+    float heightFactor = 1.0 - cell.y / uFlowGrid.y;
+    return max(0.1, heightFactor * heightFactor * 3.0 + turbulence * 0.5);`,
+
+  scanline: `
+    // Horizontal bar sweeping bottom to top, looping every 4 / flowSpeed seconds
+    float period = 4.0 / uFlowSpeed;
+    float scanY = mod(uFlowTime, period) / period * uFlowGrid.y;
+    float dist = abs(cell.y - scanY);
+    return dist < 1.5 ? 3.0 * (1.0 - dist / 1.5) : 0.1;`,
+
+  sparkle: `
+    // ~20% of cells flash, re-rolled 5 times a second (times flowSpeed)
+    int bucket = int(floor(uFlowTime * 5.0 * uFlowSpeed));
+    return flowHash(uFlowSeed, int(cell.x), int(cell.y), bucket) > 0.8 ? 3.0 : 0.2;`,
+
+  custom: `
+    // Brightness straight from customGrid, bottom-aligned with the board.
+    // Cells outside the bitmap (or past the end of a short row) stay dim.
+    if (uCustomGridSize.y == 0.0) return 1.0;
+    float matrixY = uCustomGridSize.y - 1.0 - cell.y;
+    if (cell.x < 0.0 || cell.x >= uCustomGridSize.x || matrixY < 0.0 || matrixY >= uCustomGridSize.y) return 0.1;
+    vec2 texel = texelFetch(uCustomGrid, ivec2(cell.x, matrixY), 0).rg;
+    return texel.g > 0.0 ? texel.r : 0.1;`
+};
+
+export const BUILT_IN_STYLES: BuiltInVisualStyle[] = ['none', ...Object.keys(FLOW_STYLES) as BuiltInVisualStyle[]];
+
+const PIECE_TYPES = Object.keys(SHAPES);
+
+// Styles added with registerStyle, shared by every SceneManager on the page
+const registeredStyles = new Map<string, StyleFunction | string>();
+let shaderVersion = 0; // Bumped whenever the set of GLSL styles changes
+
+export const registerStyle = (name: string, style: StyleFunction | string) => {
+  if (!name || (BUILT_IN_STYLES as string[]).includes(name)) {
+    throw new Error(`Can't register a visual style named '${name}'`);
+  }
+  if (typeof style !== 'function' && typeof style !== 'string') {
+    throw new Error('A visual style is a function or a GLSL function body');
+  }
+  // A body that doesn't compile would take the whole cube program down with it, so it's
+  // tried on its own first and never reaches the shared shader
+  if (typeof style === 'string') {
+    const error = compileError(style);
+    if (error) throw new Error(`Visual style '${name}' doesn't compile: ${error}`);
+  }
+  if (typeof style === 'string' || typeof registeredStyles.get(name) === 'string') shaderVersion++;
+  registeredStyles.set(name, style);
+};
+
+export const getStyleNames = (): string[] => [...BUILT_IN_STYLES, ...registeredStyles.keys()];
+
+// Shared helpers available to every style
+const FLOW_HELPERS = `
+uniform float uFlowTime;   // Seconds
+uniform float uFlowSpeed;
+uniform vec2 uFlowGrid;    // Columns, rows
+uniform int uFlowStyle;    // 0 = 'none', -1 = CPU style (read instanceStyle), else a compiled style
+uniform uint uFlowSeed;
+uniform float uFlowBeatPhase;  // 0 to 1 through the current beat
+uniform float uFlowAudioLevel; // 0 to 1
+uniform float uFlowHue;        // Modulation gains (GameConfig.flowHue ...)
+uniform float uFlowSaturation;
+uniform float uFlowScale;
+uniform float uFlowExtrude;
+uniform float uFlowOpacity;
+uniform sampler2D uCustomGrid;  // R = brightness, G = 1 where the bitmap has a value
+uniform vec2 uCustomGridSize;   // Widest row, row count
+
+// JavaScript's %: the result takes the sign of the dividend
+float flowRemainder(float a, float b) {
+  return a - b * trunc(a / b);
+}
+
+// Mirror of hashNoise() in Random.ts, bit for bit
+float flowHash(uint seed, int x, int y, int z) {
+  uint h = seed ^ (uint(x) * 0x27d4eb2du) ^ (uint(y) * 0x165667b1u) ^ (uint(z) * 0x1b873593u);
+  h = (h ^ (h >> 15u)) * 0x85ebca6bu;
+  h = (h ^ (h >> 13u)) * 0xc2b2ae35u;
+  h ^= h >> 16u;
+  return float(h) / 4294967296.0;
+}
+
+// Same hue rotation as picking the neon color with a different hue offset,
+// with the saturation scaled on the way
+vec3 flowAdjustColor(vec3 c, float turns, float saturation) {
+  if (turns == 0.0 && saturation == 1.0) return c;
+  vec4 K = vec4(0.0, -1.0 / 3.0, 2.0 / 3.0, -1.0);
+  vec4 p = mix(vec4(c.bg, K.wz), vec4(c.gb, K.xy), step(c.b, c.g));
+  vec4 q = mix(vec4(p.xyw, c.r), vec4(c.r, p.yzx), step(p.x, c.r));
+  float d = q.x - min(q.w, q.y);
+  vec3 hsv = vec3(abs(q.z + (q.w - q.y) / (6.0 * d + 1e-10)), d / (q.x + 1e-10), q.x);
+  vec3 rgb = clamp(abs(fract(hsv.x + turns + vec3(1.0, 2.0 / 3.0, 1.0 / 3.0)) * 6.0 - 3.0) - 1.0, 0.0, 1.0);
+  return hsv.z * mix(vec3(1.0), rgb, hsv.y * saturation);
+}
+`;
+
+// --- GLSL CHECK ---
+// registerStyle compiles a new body in a vertex shader of its own, with the same helpers,
+// uniforms and function signature as the real one. One small WebGL2 context is kept for it.
+
+let testContext: WebGL2RenderingContext | null | undefined;
+
+const getTestContext = (): WebGL2RenderingContext | null => {
+  if (testContext === undefined) {
+    testContext = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('webgl2');
+  }
+  return testContext;
+};
+
+// The compiler's log if the body doesn't compile, else null. Without WebGL2 there's
+// nothing to render it with either, so it passes.
+const compileError = (body: string): string | null => {
+  const gl = getTestContext();
+  if (!gl) return null;
+  const source = [
+    '#version 300 es',
+    'precision highp float;',
+    'precision highp int;',
+    FLOW_HELPERS,
+    'float flowStyleTest(vec2 cell, vec2 n, float t, float piece, inout float hueShift, inout float scale, inout float zOffset) {',
+    body,
+    '  return 1.0;',
+    '}',
+    'void main() {',
+    '  float hueShift = 0.0;',
+    '  float scale = 1.0;',
+    '  float zOffset = 0.0;',
+    '  gl_Position = vec4(flowStyleTest(vec2(0.0), vec2(0.0), 0.0, 0.0, hueShift, scale, zOffset));',
+    '}'
+  ].join('\n');
+
+  const shader = gl.createShader(gl.VERTEX_SHADER);
+  if (!shader) return null; // Context lost: can't tell
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  const ok = gl.getShaderParameter(shader, gl.COMPILE_STATUS) || gl.isContextLost();
+  const log = ok ? null : (gl.getShaderInfoLog(shader) || 'unknown error').trim();
+  gl.deleteShader(shader);
+  return log;
+};
+
+// Per-frame inputs that don't live in GameConfig
+export interface FlowFrame {
+  time: number;       // Seconds
+  seed: number;       // For 'sparkle'
+  beatPhase: number;
+  audioLevel: number;
+  customGrid?: number[][]; // Current frame of a customGrid animation, in place of config.customGrid
+  visualStyle?: string;    // Overrides config.visualStyle (showText forces 'custom')
+}
+
+export interface FlowSample {
+  brightness: number;
+  hueShift: number;
+  scale: number;
+  zOffset: number;
+}
+
+export class FlowShader {
+  public readonly uniforms = {
+    uFlowTime: { value: 0 },
+    uFlowSpeed: { value: 1 },
+    uFlowGrid: { value: new THREE.Vector2(1, 1) },
+    uFlowStyle: { value: 0 },
+    uFlowSeed: { value: 0 },
+    uFlowBeatPhase: { value: 0 },
+    uFlowAudioLevel: { value: 0 },
+    uFlowHue: { value: 0 },
+    uFlowSaturation: { value: 0 },
+    uFlowScale: { value: 0 },
+    uFlowExtrude: { value: 0 },
+    uFlowOpacity: { value: 0 },
+    uCustomGrid: { value: null as THREE.DataTexture | null },
+    uCustomGridSize: { value: new THREE.Vector2(0, 0) }
+  };
+
+  // The active style when it's a function (null for shader styles)
+  public cpuStyle: StyleFunction | null = null;
+
+  private customGrid: number[][] | null = null; // The array uCustomGrid was built from
+  private compiledStyles: string[] = [];        // GLSL styles in the current program, by id - 1
+  private compiledVersion = -1;
+  private failedStyle: StyleFunction | null = null; // Threw once: not called again
+  private input: StyleInput = {
+    x: 0, y: 0, cols: 1, rows: 1, time: 0, flowSpeed: 1, pieceType: 'I', beatPhase: 0, audioLevel: 0
+  };
+  private sampleOut: FlowSample = { brightness: 1, hueShift: 0, scale: 1, zOffset: 0 };
+
+  constructor() {
+    this.writeCustomGrid([]);
+  }
+
+  // Part of the material's program cache key: a new GLSL style needs a new program
+  public get programKey(): string {
+    return `flow-${shaderVersion}`;
+  }
+
+  // Per-frame uniform refresh. Cheap: the texture is only rewritten when customGrid changes.
+  // Returns true when registered GLSL styles have changed and the material must recompile.
+  public update(config: GameConfig, frame: FlowFrame): boolean {
+    const u = this.uniforms;
+    u.uFlowTime.value = frame.time;
+    u.uFlowSpeed.value = config.flowSpeed;
+    u.uFlowGrid.value.set(config.gridCols, config.gridRows);
+    u.uFlowSeed.value = frame.seed >>> 0;
+    u.uFlowBeatPhase.value = frame.beatPhase;
+    u.uFlowAudioLevel.value = frame.audioLevel;
+    // Presets saved before these existed leave them undefined
+    u.uFlowHue.value = config.flowHue ?? 0;
+    u.uFlowSaturation.value = config.flowSaturation ?? 0;
+    u.uFlowScale.value = config.flowScale ?? 0;
+    u.uFlowExtrude.value = config.flowExtrude ?? 0;
+    u.uFlowOpacity.value = config.flowOpacity ?? 0;
+
+    const visualStyle = frame.visualStyle ?? config.visualStyle;
+    const registered = registeredStyles.get(visualStyle);
+    this.cpuStyle = typeof registered === 'function' && registered !== this.failedStyle ? registered : null;
+    // Unknown (or not yet compiled) -> 0 -> 'none'
+    u.uFlowStyle.value = this.cpuStyle ? -1 : this.compiledStyles.indexOf(visualStyle) + 1;
+
+    const input = this.input;
+    input.cols = config.gridCols;
+    input.rows = config.gridRows;
+    input.time = frame.time;
+    input.flowSpeed = config.flowSpeed;
+    input.beatPhase = frame.beatPhase;
+    input.audioLevel = frame.audioLevel;
+
+    const customGrid = frame.customGrid ?? config.customGrid;
+    if (customGrid !== this.customGrid) {
+      this.customGrid = customGrid;
+      this.writeCustomGrid(customGrid ?? []);
+    }
+    return this.compiledVersion !== shaderVersion;
+  }
+
+  // Runs the active CPU style for one cube. The returned object is reused.
+  public sample(x: number, y: number, pieceType: string): FlowSample {
+    const out = this.sampleOut;
+    out.brightness = 1;
+    out.hueShift = 0;
+    out.scale = 1;
+    out.zOffset = 0;
+    const style = this.cpuStyle;
+    if (!style) return out;
+
+    this.input.x = x;
+    this.input.y = y;
+    this.input.pieceType = pieceType;
+    let result: number | StyleOutput;
+    try {
+      result = style(this.input);
+    } catch (e) {
+      // A broken plugin shouldn't take the render loop down with it
+      console.error('Visual style failed', e);
+      this.failedStyle = style;
+      this.cpuStyle = null;
+      return out;
+    }
+    if (typeof result === 'number') {
+      out.brightness = result;
+    } else if (result) {
+      out.brightness = result.brightness ?? 1;
+      out.hueShift = result.hueShift ?? 0;
+      out.scale = result.scale ?? 1;
+      out.zOffset = result.zOffset ?? 0;
+    }
+    return out;
+  }
+
+  public pieceIndex(type: string): number {
+    return Math.max(0, PIECE_TYPES.indexOf(type));
+  }
+
+  // onBeforeCompile hook for the cube material.
+  // instanceEmissive carries the piece's neon color, instanceCell its column, visual row,
+  // piece index and line-clear flash, and instanceStyle a CPU style's output
+  // (brightness, hue shift, scale, z-offset). The vertex shader turns them into the
+  // final emissive, diffuse color, opacity and cube transform.
+  public patch(shader: THREE.WebGLProgramParametersWithUniforms) {
+    Object.assign(shader.uniforms, this.uniforms);
+
+    const styles: [string, string][] = [...Object.entries(FLOW_STYLES)];
+    registeredStyles.forEach((style, name) => {
+      if (typeof style === 'string') styles.push([name, style]);
+    });
+    this.compiledStyles = styles.map(([name]) => name);
+    this.compiledVersion = shaderVersion;
+
+    const functions = styles
+      .map(([name, body], idx) => [
+        `// ${name}`,
+        `float flowStyle${idx + 1}(vec2 cell, vec2 n, float t, float piece, inout float hueShift, inout float scale, inout float zOffset) {`,
+        body,
+        '  return 1.0;',
+        '}'
+      ].join('\n'))
+      .join('\n');
+    const dispatch = styles
+      .map((_, idx) => `  if (uFlowStyle == ${idx + 1}) return flowStyle${idx + 1}(cell, n, t, piece, hueShift, scale, zOffset);`)
+      .join('\n');
+
+    shader.vertexShader = [
+      'attribute vec3 instanceEmissive;',
+      'attribute vec4 instanceCell;',
+      'attribute vec4 instanceStyle;',
+      'varying vec3 vInstanceEmissive;',
+      'varying float vInstanceOpacity;',
+      FLOW_HELPERS,
+      functions,
+      'float flowFactor(vec2 cell, float piece, inout float hueShift, inout float scale, inout float zOffset) {',
+      '  if (uFlowStyle < 0) {',
+      '    hueShift = instanceStyle.y;',
+      '    scale = instanceStyle.z;',
+      '    zOffset = instanceStyle.w;',
+      '    return instanceStyle.x;',
+      '  }',
+      '  vec2 n = (cell - uFlowGrid * 0.5) / (uFlowGrid * 0.5);',
+      '  float t = uFlowTime * uFlowSpeed;',
+      dispatch,
+      '  return 1.0;',
+      '}',
+      shader.vertexShader.replace('#include <begin_vertex>', [
+        '#include <begin_vertex>',
+        '  float flowHue = 0.0;',
+        '  float flowScale = 1.0;',
+        '  float flowZ = 0.0;',
+        '  float flow = flowFactor(instanceCell.xy, instanceCell.z, flowHue, flowScale, flowZ);',
+        '  // Config gains: every channel moves with how far the flow is from neutral',
+        '  float level = flow - 1.0;',
+        '  flowHue += uFlowHue * level;',
+        '  float flowSat = clamp(1.0 + uFlowSaturation * level, 0.0, 1.0);',
+        '  flowScale *= max(0.0, 1.0 + uFlowScale * level);',
+        '  flowZ += uFlowExtrude * level;',
+        '  vInstanceOpacity = clamp(1.0 + uFlowOpacity * level, 0.0, 1.0);',
+        '  transformed = transformed * flowScale + vec3(0.0, 0.0, flowZ);',
+        '  #ifdef USE_INSTANCING_COLOR',
+        '  vColor.rgb = flowAdjustColor(vColor.rgb, flowHue, flowSat);',
+        '  #endif',
+        '  // flow > 1 brightens, < 1 dims; the clear flash then pushes toward white-hot',
+        '  float flash = instanceCell.w;',
+        '  vInstanceEmissive = mix(flowAdjustColor(instanceEmissive, flowHue, flowSat) * flow * 1.5, vec3(1.0), flash * 0.7) * (1.0 + flash * 3.0);'
+      ].join('\n'))
+    ].join('\n');
+
+    shader.fragmentShader = 'varying vec3 vInstanceEmissive;\nvarying float vInstanceOpacity;\n' + shader.fragmentShader
+      .replace('vec4 diffuseColor = vec4( diffuse, opacity );', 'vec4 diffuseColor = vec4( diffuse, opacity * vInstanceOpacity );')
+      .replace('vec3 totalEmissiveRadiance = emissive;', 'vec3 totalEmissiveRadiance = emissive * vInstanceEmissive;');
+  }
+
+  public dispose() {
+    this.uniforms.uCustomGrid.value?.dispose();
+    this.uniforms.uCustomGrid.value = null;
+    this.customGrid = null;
+    this.cpuStyle = null;
+  }
+
+  // Rows may be ragged: G marks which texels hold a real value.
+  // The texture is reused while the size stays the same (animations upload every frame).
+  private writeCustomGrid(grid: number[][]) {
+    const height = grid.length;
+    const width = grid.reduce((max, row) => Math.max(max, row?.length ?? 0), 0);
+    const texWidth = Math.max(1, width);
+    const texHeight = Math.max(1, height);
+
+    let texture = this.uniforms.uCustomGrid.value;
+    if (!texture || texture.image.width !== texWidth || texture.image.height !== texHeight) {
+      texture?.dispose();
+      const data = new Float32Array(texWidth * texHeight * 2);
+      texture = new THREE.DataTexture(data, texWidth, texHeight, THREE.RGFormat, THREE.FloatType);
+      this.uniforms.uCustomGrid.value = texture;
+    }
+
+    const data = texture.image.data as Float32Array;
+    data.fill(0);
+    grid.forEach((row, y) => row?.forEach((value, x) => {
+      data[(y * width + x) * 2] = value;
+      data[(y * width + x) * 2 + 1] = 1;
+    }));
+    texture.needsUpdate = true;
+    this.uniforms.uCustomGridSize.value.set(width, height);
+  }
+}
@@ -0,0 +1,150 @@
+import { CustomAnimation, CustomFrame, FrameLoaderOptions, GifSource, SpriteSheetOptions, SpriteSheetSource } from '../types';
+import { decodeGif } from './GifDecoder';
+
+// Turn images into customGrid brightness frames for the 'custom' style:
+// an animated GIF (frame delays kept) or a sprite sheet (frames in reading order).
+// Frames are resampled to the board (rows x cols) by averaging the pixels under each cell.
+
+const DEFAULT_FRAME_SECONDS = 0.1; // Browsers' speed for GIF frames with no delay
+const DEFAULT_BRIGHTNESS = 3;
+
+type SizedOptions = FrameLoaderOptions & { rows: number; cols: number };
+
+// One RGBA image to a rows x cols brightness grid (rows top to bottom, like customGrid)
+export const rgbaToBrightness = (
+  rgba: ArrayLike<number>,
+  width: number,
+  height: number,
+  options: SizedOptions
+): number[][] => {
+  const { rows, cols, fit = 'contain', brightness = DEFAULT_BRIGHTNESS, invert = false } = options;
+
+  // Cells per pixel on each axis, and where the image's corner lands on the board
+  let scaleX = cols / width;
+  let scaleY = rows / height;
+  if (fit !== 'stretch') {
+    scaleX = scaleY = fit === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  }
+  const offsetX = (cols - width * scaleX) / 2;
+  const offsetY = (rows - height * scaleY) / 2;
+
+  // Pixel span under cell i on one axis, or null if the cell is off the image
+  const span = (i: number, offset: number, scale: number, size: number): [number, number] | null => {
+    const start = (i - offset) / scale;
+    const end = (i + 1 - offset) / scale;
+    const from = Math.max(0, Math.floor(start));
+    const to = Math.min(size, Math.ceil(end));
+    if (to > from) return [from, to];
+    const centre = Math.floor((start + end) / 2); // Upscaling: the pixel under the cell centre
+    return centre >= 0 && centre < size ? [centre, centre + 1] : null;
+  };
+
+  const grid: number[][] = [];
+  for (let r = 0; r < rows; r++) {
+    const row: number[] = [];
+    const ys = span(r, offsetY, scaleY, height);
+    for (let c = 0; c < cols; c++) {
+      const xs = span(c, offsetX, scaleX, width);
+      if (!ys || !xs) {
+        row.push(0); // Letterbox
+        continue;
+      }
+      let sum = 0;
+      for (let y = ys[0]; y < ys[1]; y++) {
+        for (let x = xs[0]; x < xs[1]; x++) {
+          const o = (y * width + x) * 4;
+          const luma = (0.2126 * rgba[o] + 0.7152 * rgba[o + 1] + 0.0722 * rgba[o + 2]) / 255;
+          const alpha = rgba[o + 3] / 255;
+          sum += (invert ? 1 - luma : luma) * alpha;
+        }
+      }
+      const count = (ys[1] - ys[0]) * (xs[1] - xs[0]);
+      row.push(parseFloat((sum / count * brightness).toFixed(3)));
+    }
+    grid.push(row);
+  }
+  return grid;
+};
+
+const frameTiming = (options: FrameLoaderOptions, delay = 0): Omit<CustomFrame, 'grid'> => {
+  if (options.frameBeats !== undefined) return { beats: options.frameBeats };
+  return { duration: delay > 0 ? delay : options.frameDuration ?? DEFAULT_FRAME_SECONDS };
+};
+
+const toAnimation = (frames: CustomFrame[], options: FrameLoaderOptions): CustomAnimation => ({
+  frames,
+  loop: options.loop ?? true,
+  interpolate: options.interpolate ?? false
+});
+
+// --- GIF ---
+
+export const gifToAnimation = (bytes: Uint8Array, options: SizedOptions): CustomAnimation => {
+  const gif = decodeGif(bytes);
+  const frames = gif.frames.map(frame => ({
+    grid: rgbaToBrightness(frame.rgba, gif.width, gif.height, options),
+    ...frameTiming(options, frame.delay)
+  }));
+  return toAnimation(frames, options);
+};
+
+export const loadGifAnimation = async (
+  source: GifSource,
+  options: SizedOptions
+): Promise<CustomAnimation> => {
+  let bytes: Uint8Array;
+  if (typeof source === 'string') {
+    const response = await fetch(source);
+    if (!response.ok) throw new Error(`Failed to load GIF: ${response.status} ${response.statusText}`);
+    bytes = new Uint8Array(await response.arrayBuffer());
+  } else if (source instanceof Uint8Array) {
+    bytes = source;
+  } else if (source instanceof ArrayBuffer) {
+    bytes = new Uint8Array(source);
+  } else {
+    bytes = new Uint8Array(await source.arrayBuffer());
+  }
+  return gifToAnimation(bytes, options);
+};
+
+// --- SPRITE SHEET ---
+
+const loadImage = async (source: SpriteSheetSource): Promise<HTMLImageElement | HTMLCanvasElement | ImageBitmap> => {
+  if (source instanceof Blob) return createImageBitmap(source);
+  if (typeof source !== 'string') return source;
+  const image = new Image();
+  image.crossOrigin = 'anonymous'; // Needed to read the pixels of images from other origins
+  image.src = source;
+  await image.decode();
+  return image;
+};
+
+// Frames are cut left to right, top to bottom, frameWidth x frameHeight each
+export const loadSpriteSheetAnimation = async (
+  source: SpriteSheetSource,
+  options: SpriteSheetOptions & { rows: number; cols: number }
+): Promise<CustomAnimation> => {
+  const image = await loadImage(source);
+  const sheetWidth = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+  const sheetHeight = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+  const { frameWidth, frameHeight } = options;
+  const across = Math.floor(sheetWidth / frameWidth);
+  const down = Math.floor(sheetHeight / frameHeight);
+  const count = Math.min(options.frameCount ?? across * down, across * down);
+  if (count <= 0) throw new Error('Sprite sheet is smaller than one frame');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = sheetWidth;
+  canvas.height = sheetHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(image, 0, 0);
+
+  const frames: CustomFrame[] = [];
+  for (let i = 0; i < count; i++) {
+    const x = (i % across) * frameWidth;
+    const y = Math.floor(i / across) * frameHeight;
+    const pixels = ctx.getImageData(x, y, frameWidth, frameHeight).data;
+    frames.push({ grid: rgbaToBrightness(pixels, frameWidth, frameHeight, options), ...frameTiming(options) });
+  }
+  return toAnimation(frames, options);
+};
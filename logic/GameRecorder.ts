@@ -0,0 +1,73 @@
+import { GameAction, GameConfig, GameRecording, RecordedAction } from '../types';
+
+export const RECORDING_FORMAT = 'tetris-flow-recording';
+// Bump when the action schema changes, and teach parseRecording to upgrade older files
+// (version 2 added 'rules' actions; a version 1 file is a valid version 2 one)
+export const RECORDING_VERSION = 2;
+
+// Collects TetrisGame actions with timestamps. Time is supplied by the caller
+// (SceneManager's frame clock) so the recorder stays free of any timer of its own.
+export class GameRecorder {
+  private actions: RecordedAction[] = [];
+  private seed: number;
+  private config: GameConfig;
+  private startTime: number;
+  private lastTime = 0;
+
+  constructor(seed: number, config: GameConfig, startTime: number) {
+    this.seed = seed;
+    // Pin the effective seed so a config asking for a random one still replays identically
+    this.config = { ...config, seed };
+    this.startTime = startTime;
+  }
+
+  public record(action: GameAction, time: number) {
+    // Rounded before it can set the duration, so the last action never lands past the end
+    const t = Number(Math.max(0, time - this.startTime).toFixed(4));
+    this.lastTime = t;
+    this.actions.push({ ...action, t });
+  }
+
+  public finish(time: number): GameRecording {
+    return {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      seed: this.seed,
+      config: this.config,
+      duration: Math.max(this.lastTime, time - this.startTime),
+      actions: this.actions
+    };
+  }
+}
+
+export const serializeRecording = (recording: GameRecording): string => {
+  return JSON.stringify(recording);
+};
+
+// Accepts a recording object or its JSON text. Throws on anything we can't play.
+export const parseRecording = (input: GameRecording | string): GameRecording => {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+
+  if (!data || data.format !== RECORDING_FORMAT) {
+    throw new Error('Not a Tetris Flow recording');
+  }
+  if (typeof data.version !== 'number' || data.version > RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${data.version}`);
+  }
+  if (!data.config || !Array.isArray(data.actions)) {
+    throw new Error('Recording is missing its config or actions');
+  }
+
+  return data as GameRecording;
+};
+
+// Browser-only: offer the recording as a .json download
+export const downloadRecording = (recording: GameRecording, filename: string = 'tetris-flow-recording.json') => {
+  const blob = new Blob([serializeRecording(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,217 @@
+// Minimal GIF87a/89a decoder: every frame composited onto the full canvas as RGBA,
+// with its delay. Handles local color tables, transparency, interlacing and the
+// three disposal methods. Pure TypeScript, so it runs in Node as well as the browser.
+
+export interface GifFrame {
+  rgba: Uint8ClampedArray; // width * height * 4, the whole canvas after this frame
+  delay: number;           // Seconds (0 when the file doesn't say)
+}
+
+export interface DecodedGif {
+  width: number;
+  height: number;
+  frames: GifFrame[];
+}
+
+const MAX_CODES = 4096;
+
+// Variable-width LZW as GIF uses it, straight into palette indices
+const decodeLzw = (minCodeSize: number, data: Uint8Array, pixelCount: number): Uint8Array => {
+  const out = new Uint8Array(pixelCount);
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  const prefix = new Uint16Array(MAX_CODES);
+  const suffix = new Uint8Array(MAX_CODES);
+  const stack = new Uint8Array(MAX_CODES + 1);
+  for (let i = 0; i < clear; i++) suffix[i] = i;
+
+  let codeSize = minCodeSize + 1;
+  let codeMask = (1 << codeSize) - 1;
+  let nextCode = end + 1;
+  let prev = -1;
+  let first = 0;
+  let outPos = 0;
+  let datum = 0;
+  let bits = 0;
+  let pos = 0;
+
+  while (outPos < pixelCount) {
+    while (bits < codeSize) {
+      if (pos >= data.length) return out; // Truncated: keep what we have
+      datum |= data[pos++] << bits;
+      bits += 8;
+    }
+    const code = datum & codeMask;
+    datum >>= codeSize;
+    bits -= codeSize;
+
+    if (code === clear) {
+      codeSize = minCodeSize + 1;
+      codeMask = (1 << codeSize) - 1;
+      nextCode = end + 1;
+      prev = -1;
+      continue;
+    }
+    if (code === end) break;
+    if (prev === -1) {
+      out[outPos++] = suffix[code];
+      prev = code;
+      first = code;
+      continue;
+    }
+
+    // Unwind the code's string onto the stack (it comes out back to front)
+    let sp = 0;
+    let cur = code;
+    if (code >= nextCode) {
+      // Not in the table yet: it's the previous string plus its own first character
+      stack[sp++] = first;
+      cur = prev;
+    }
+    while (cur >= clear) {
+      stack[sp++] = suffix[cur];
+      cur = prefix[cur];
+    }
+    first = cur;
+    stack[sp++] = first;
+    while (sp > 0 && outPos < pixelCount) out[outPos++] = stack[--sp];
+
+    if (nextCode < MAX_CODES) {
+      prefix[nextCode] = prev;
+      suffix[nextCode] = first;
+      nextCode++;
+      if ((nextCode & codeMask) === 0 && nextCode < MAX_CODES) {
+        codeSize++;
+        codeMask = (1 << codeSize) - 1;
+      }
+    }
+    prev = code;
+  }
+  return out;
+};
+
+// Rows of an interlaced image arrive in four passes
+const deinterlace = (pixels: Uint8Array, width: number, height: number): Uint8Array => {
+  const out = new Uint8Array(pixels.length);
+  let row = 0;
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let y = start; y < height; y += step) {
+      out.set(pixels.subarray(row * width, (row + 1) * width), y * width);
+      row++;
+    }
+  }
+  return out;
+};
+
+export const decodeGif = (bytes: Uint8Array): DecodedGif => {
+  const signature = String.fromCharCode(...bytes.subarray(0, 6));
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') {
+    throw new Error('Not a GIF file');
+  }
+
+  let pos = 6;
+  const u8 = () => bytes[pos++];
+  const u16 = () => {
+    const value = bytes[pos] | (bytes[pos + 1] << 8);
+    pos += 2;
+    return value;
+  };
+  const readColorTable = (size: number) => {
+    const table = bytes.subarray(pos, pos + size * 3);
+    pos += size * 3;
+    return table;
+  };
+  const readSubBlocks = (): Uint8Array => {
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for (let size = u8(); size > 0 && pos < bytes.length; size = u8()) {
+      chunks.push(bytes.subarray(pos, pos + size));
+      total += size;
+      pos += size;
+    }
+    const data = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return data;
+  };
+
+  const width = u16();
+  const height = u16();
+  const screenFlags = u8();
+  pos += 2; // Background color index, pixel aspect ratio
+  const globalTable = screenFlags & 0x80 ? readColorTable(2 << (screenFlags & 7)) : null;
+
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  const frames: GifFrame[] = [];
+  // Graphic control extension, applies to the next image only
+  let delay = 0;
+  let transparent = -1;
+  let disposal = 0;
+
+  while (pos < bytes.length) {
+    const block = u8();
+    if (block === 0x3b) break; // Trailer
+
+    if (block === 0x21) {
+      const label = u8();
+      if (label === 0xf9) {
+        const data = readSubBlocks();
+        disposal = (data[0] >> 2) & 7;
+        delay = (data[1] | (data[2] << 8)) / 100;
+        transparent = data[0] & 1 ? data[3] : -1;
+      } else {
+        readSubBlocks(); // Comments, application data (looping), plain text
+      }
+      continue;
+    }
+
+    if (block !== 0x2c) throw new Error('Corrupt GIF file');
+
+    const left = u16();
+    const top = u16();
+    const w = u16();
+    const h = u16();
+    const flags = u8();
+    const table = flags & 0x80 ? readColorTable(2 << (flags & 7)) : globalTable;
+    const minCodeSize = u8();
+    let pixels = decodeLzw(minCodeSize, readSubBlocks(), w * h);
+    if (flags & 0x40) pixels = deinterlace(pixels, w, h);
+
+    const previous = disposal === 3 ? canvas.slice() : null;
+    if (table) {
+      for (let y = 0; y < h; y++) {
+        const cy = top + y;
+        if (cy >= height) break;
+        for (let x = 0; x < w; x++) {
+          const cx = left + x;
+          if (cx >= width) break;
+          const index = pixels[y * w + x];
+          if (index === transparent) continue;
+          const o = (cy * width + cx) * 4;
+          canvas[o] = table[index * 3];
+          canvas[o + 1] = table[index * 3 + 1];
+          canvas[o + 2] = table[index * 3 + 2];
+          canvas[o + 3] = 255;
+        }
+      }
+    }
+    frames.push({ rgba: canvas.slice(), delay });
+
+    // Disposal: what the canvas looks like before the next frame is drawn
+    if (disposal === 2) {
+      for (let y = top; y < Math.min(height, top + h); y++) {
+        canvas.fill(0, (y * width + left) * 4, (y * width + Math.min(width, left + w)) * 4);
+      }
+    } else if (previous) {
+      canvas.set(previous);
+    }
+    delay = 0;
+    transparent = -1;
+    disposal = 0;
+  }
+
+  return { width, height, frames };
+};
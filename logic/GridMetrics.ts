@@ -0,0 +1,53 @@
+import { GridMatrix } from '../types';
+
+export interface GridMetrics {
+  columnHeights: number[];
+  maxHeight: number;
+  aggregateHeight: number;
+  holes: number;        // Empty cells with a block somewhere above them
+  bumpiness: number;    // Sum of height differences between neighbouring columns
+  completeLines: number;
+}
+
+// Surface statistics of a board. Shared by the AI evaluator and the headless runner.
+export const measureGrid = (grid: GridMatrix): GridMetrics => {
+  const rows = grid.length;
+  const cols = rows > 0 ? grid[0].length : 0;
+  const columnHeights = new Array(cols).fill(0);
+  let holes = 0;
+  let bumpiness = 0;
+  let completeLines = 0;
+
+  // Calculate Column Heights & Holes
+  for (let c = 0; c < cols; c++) {
+    let foundTop = false;
+    for (let r = 0; r < rows; r++) {
+      if (grid[r][c] !== null) {
+        if (!foundTop) {
+          columnHeights[c] = rows - r;
+          foundTop = true;
+        }
+      } else if (foundTop) {
+        holes++; // Empty space below a block
+      }
+    }
+  }
+
+  for (let c = 0; c < cols - 1; c++) {
+    bumpiness += Math.abs(columnHeights[c] - columnHeights[c + 1]);
+  }
+
+  // Count lines
+  for (let r = 0; r < rows; r++) {
+    if (grid[r].every(val => val !== null)) completeLines++;
+  }
+
+  return {
+    columnHeights,
+    maxHeight: Math.max(0, ...columnHeights),
+    aggregateHeight: columnHeights.reduce((a, b) => a + b, 0),
+    holes,
+    bumpiness,
+    completeLines
+  };
+};
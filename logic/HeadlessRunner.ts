@@ -0,0 +1,150 @@
+import { AIStrategyName, AIWeights } from '../types';
+import { TetrisGame } from './TetrisAI';
+import { measureGrid } from './GridMetrics';
+import { AIDriver } from './AIDriver';
+import { getLineClearDuration, getStepInterval, getTickInterval } from './Tempo';
+
+// Runs the same AI the renderer uses, as fast as the CPU allows, with no DOM or Three.js.
+// Simulated time follows SceneManager's scheduling: one tick before each move,
+// one step per sub-step, and the full clear animation for every line clear.
+
+export interface SimulationOptions {
+  rows: number;
+  cols: number;
+  pieces: number;          // Upper bound on pieces to place
+  bpm: number;
+  seed?: number;           // 0 / undefined = random
+  enableLineClear?: boolean;
+  minLinesToClear?: number;
+  stopOnTopOut?: boolean;  // Default true. If false the board resets and play continues.
+  strategy?: AIStrategyName;
+  aiWeights?: Partial<AIWeights>;
+  mistakeRate?: number;
+}
+
+export interface SimulationStats {
+  seed: number;
+  piecesPlaced: number;
+  linesCleared: number;
+  clears: number;          // Clear sequences played (one per lock that cleared rows)
+  maxHeight: number;       // Tallest column seen during the run
+  holes: number;           // Holes on the final board
+  fillRatio: number;       // Final board fill
+  toppedOut: boolean;
+  piecesUntilTopOut: number | null;
+  secondsUntilTopOut: number | null;
+  simulatedSeconds: number;
+  wallTimeMs: number;
+}
+
+export const runSimulation = (options: SimulationOptions): SimulationStats => {
+  const run = simulate(options);
+  for (;;) {
+    const next = run.next();
+    if (next.done) return next.value;
+  }
+};
+
+// The same run, pausing after every piece so callers can spread it over several frames
+// (wallTimeMs then includes the time spent paused)
+export const simulate = function* (options: SimulationOptions): Generator<void, SimulationStats> {
+  const started = Date.now();
+  const {
+    rows, cols, pieces, bpm,
+    seed = 0,
+    enableLineClear = false,
+    minLinesToClear = 1,
+    stopOnTopOut = true,
+    strategy = 'greedy',
+    aiWeights = {},
+    mistakeRate = 0.1
+  } = options;
+
+  const game = new TetrisGame(rows, cols, minLinesToClear, seed);
+  game.enableLineClear = enableLineClear;
+  game.strategy = strategy;
+  game.aiWeights = aiWeights;
+  game.mistakeRate = mistakeRate;
+  const driver = new AIDriver(game);
+
+  const tick = getTickInterval(bpm);
+  const step = getStepInterval(bpm);
+  const clearDuration = getLineClearDuration(bpm);
+
+  let seconds = 0;
+  let placed = 0;
+  let linesCleared = 0;
+  let clears = 0;
+  let maxHeight = 0;
+  let piecesUntilTopOut: number | null = null;
+  let secondsUntilTopOut: number | null = null;
+
+  while (placed < pieces) {
+    if (game.gameOver) {
+      if (piecesUntilTopOut === null) {
+        piecesUntilTopOut = placed;
+        secondsUntilTopOut = seconds;
+      }
+      if (stopOnTopOut) break;
+      linesCleared += game.linesCleared;
+      game.reset();
+    }
+
+    if (!driver.plan()) break;
+    seconds += tick;
+
+    const linesBefore = game.linesCleared;
+    while (driver.busy) {
+      driver.step();
+      seconds += step;
+    }
+    placed++;
+
+    if (game.linesCleared > linesBefore) {
+      clears++;
+      seconds += clearDuration;
+    }
+    maxHeight = Math.max(maxHeight, measureGrid(game.grid).maxHeight);
+    yield;
+  }
+
+  // A top-out on the very last piece is only visible after the loop
+  if (game.gameOver && piecesUntilTopOut === null) {
+    piecesUntilTopOut = placed;
+    secondsUntilTopOut = seconds;
+  }
+
+  const metrics = measureGrid(game.grid);
+  return {
+    seed: game.seed,
+    piecesPlaced: placed,
+    linesCleared: linesCleared + game.linesCleared,
+    clears,
+    maxHeight,
+    holes: metrics.holes,
+    fillRatio: game.getFillRatio(),
+    toppedOut: piecesUntilTopOut !== null,
+    piecesUntilTopOut,
+    secondsUntilTopOut,
+    simulatedSeconds: seconds,
+    wallTimeMs: Date.now() - started
+  };
+};
+
+// Means across several runs (top-out figures only over the runs that topped out)
+export const summarizeSimulations = (runs: SimulationStats[]) => {
+  const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+  const toppedOut = runs.filter(r => r.toppedOut);
+  return {
+    runs: runs.length,
+    toppedOutRuns: toppedOut.length,
+    piecesPlaced: mean(runs.map(r => r.piecesPlaced)),
+    linesCleared: mean(runs.map(r => r.linesCleared)),
+    maxHeight: mean(runs.map(r => r.maxHeight)),
+    holes: mean(runs.map(r => r.holes)),
+    fillRatio: mean(runs.map(r => r.fillRatio)),
+    piecesUntilTopOut: mean(toppedOut.map(r => r.piecesUntilTopOut!)),
+    secondsUntilTopOut: mean(toppedOut.map(r => r.secondsUntilTopOut!)),
+    simulatedSeconds: mean(runs.map(r => r.simulatedSeconds))
+  };
+};
@@ -1,39 +1,197 @@
+import { GameConfig, PresetFile, PresetStorage } from '../types';
+import { DEFAULT_CONFIG, sanitizeConfig } from './ConfigSchema';
+import { LocalPresetStorage } from './PresetStorage';
+import { getFactoryPreset } from './FactoryPresets';
 
-import { GameConfig } from '../types';
+const SHARE_PARAM = 'preset';
 
-const STORAGE_PREFIX = 'tetris_flow_preset_';
+export const PRESET_FORMAT = 'tetris-flow-preset';
+// Bump when the preset schema changes, and add a migration from the previous version
+export const PRESET_VERSION = 3;
 
-export const PresetManager = {
-  save: (name: string, config: GameConfig) => {
-    try {
-      localStorage.setItem(STORAGE_PREFIX + name, JSON.stringify(config));
-    } catch (e) {
-      console.error("Failed to save preset", e);
+// Each migration upgrades a preset by one version.
+// Version 1 is the bare config object stored before presets had a format and version.
+// Fields added since a preset was saved need no migration: loading a full preset fills
+// them in from DEFAULT_CONFIG (see resolvePreset).
+const MIGRATIONS: Record<number, (preset: PresetFile) => PresetFile> = {
+  1: preset => {
+    const config: Record<string, unknown> = { ...preset.config };
+    // 'front' used to be a camera mode; it's a manual position now
+    if (config.cameraMode === 'front') {
+      const rows = typeof config.gridRows === 'number' ? config.gridRows : DEFAULT_CONFIG.gridRows;
+      Object.assign(config, { cameraMode: 'manual', cameraX: 0, cameraY: 10, cameraZ: Math.max(rows * 1.5, 30) });
     }
+    return { ...preset, version: 2, config };
   },
-  load: (name: string): GameConfig | null => {
-    try {
-      const data = localStorage.getItem(STORAGE_PREFIX + name);
-      return data ? JSON.parse(data) : null;
-    } catch (e) { 
-      console.error("Failed to load preset", e);
-      return null; 
+  2: preset => {
+    const config: Record<string, unknown> = { ...preset.config };
+    // The 8th and 16th note divisions used to be called 'half' and 'quarter'
+    const renamed: Record<string, string> = { half: 'eighth', quarter: 'sixteenth' };
+    for (const key of ['spawnOn', 'moveOn', 'lockOn']) {
+      const value = config[key];
+      if (typeof value === 'string' && value in renamed) config[key] = renamed[value];
     }
-  },
-  delete: (name: string) => {
-    try {
-      localStorage.removeItem(STORAGE_PREFIX + name);
-    } catch (e) {
-      console.error("Failed to delete preset", e);
+    return { ...preset, version: 3, config };
+  }
+};
+
+export const createPreset = (config: Partial<GameConfig>, options: { name?: string; partial?: boolean } = {}): PresetFile => ({
+  format: PRESET_FORMAT,
+  version: PRESET_VERSION,
+  ...(options.name ? { name: options.name } : {}),
+  ...(options.partial ? { partial: true } : {}),
+  config
+});
+
+// Accepts a preset file (the object or its JSON text), or a bare config from before presets
+// were versioned. Upgrades it to the current version and checks every field: bad ones are
+// dropped and out-of-range numbers clamped, with a warning. Throws if it isn't a preset at all.
+export const parsePreset = (input: PresetFile | Partial<GameConfig> | string): PresetFile => {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Not a Tetris Flow preset');
+  }
+
+  let preset: PresetFile;
+  if (data.format === PRESET_FORMAT) {
+    if (typeof data.version !== 'number' || data.version < 1 || data.version > PRESET_VERSION) {
+      throw new Error(`Unsupported preset version: ${data.version}`);
     }
-  },
-  list: (): string[] => {
-    try {
-      return Object.keys(localStorage)
-        .filter(k => k.startsWith(STORAGE_PREFIX))
-        .map(k => k.replace(STORAGE_PREFIX, ''));
-    } catch (e) {
-      return [];
+    if (!data.config || typeof data.config !== 'object') {
+      throw new Error('Preset is missing its config');
     }
+    preset = data;
+  } else if (data.format === undefined) {
+    preset = { format: PRESET_FORMAT, version: 1, config: data };
+  } else {
+    throw new Error('Not a Tetris Flow preset');
   }
+
+  while (preset.version < PRESET_VERSION) {
+    preset = MIGRATIONS[preset.version](preset);
+  }
+
+  const { config, warnings } = sanitizeConfig(preset.config);
+  if (warnings.length > 0) {
+    console.warn(`Preset${preset.name ? ` '${preset.name}'` : ''}: ${warnings.join('; ')}`);
+  }
+  return { ...preset, config };
+};
+
+// The config a preset gives when applied on top of `base`
+export const resolvePreset = (preset: PresetFile, base: GameConfig): GameConfig => {
+  return preset.partial ? { ...base, ...preset.config } : { ...DEFAULT_CONFIG, ...preset.config };
+};
+
+export const serializePreset = (preset: PresetFile): string => {
+  return JSON.stringify(preset, null, 2);
 };
+
+// Browser-only: offer the preset as a .json download
+export const downloadPreset = (preset: PresetFile, filename: string = 'tetris-flow-preset.json') => {
+  const blob = new Blob([serializePreset(preset)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- SHARE LINKS ---
+// The preset rides in the query string as base64url JSON
+
+const encodeBase64Url = (text: string): string => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const decodeBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+export const getShareUrl = (preset: PresetFile, base: string = window.location.href): string => {
+  // Fields at their defaults are left out to keep links short: a full preset restores them anyway
+  const config = preset.partial ? preset.config : Object.fromEntries(
+    Object.entries(preset.config).filter(([key, value]) =>
+      JSON.stringify(value) !== JSON.stringify(DEFAULT_CONFIG[key as keyof GameConfig]))
+  );
+  const url = new URL(base);
+  url.searchParams.set(SHARE_PARAM, encodeBase64Url(JSON.stringify({ ...preset, config })));
+  return url.toString();
+};
+
+// The preset in a page's query string (window.location.search), if there is one. Throws if it's unreadable.
+export const readSharedPreset = (search: string): PresetFile | null => {
+  const encoded = new URLSearchParams(search).get(SHARE_PARAM);
+  return encoded ? parsePreset(decodeBase64Url(encoded)) : null;
+};
+
+// --- STORAGE ---
+// Saved presets live in a PresetStorage backend (see PresetStorage.ts). Every call is async
+// since the backend may be remote. Failed reads are logged and reported as "nothing there";
+// failed writes and deletes are logged and rejected, so the caller can tell the user.
+// Factory presets (see FactoryPresets.ts) load by name too, unless a saved one shadows them.
+
+export const createPresetManager = (storage: PresetStorage) => {
+  const manager = {
+    save: async (name: string, config: Partial<GameConfig>, options: { partial?: boolean } = {}) => {
+      try {
+        await storage.write(name, serializePreset(createPreset(config, { name, partial: options.partial })));
+      } catch (e) {
+        console.error("Failed to save preset", e);
+        throw e;
+      }
+    },
+    load: async (name: string): Promise<PresetFile | null> => {
+      try {
+        const data = await storage.read(name);
+        if (data) return parsePreset(data);
+      } catch (e) {
+        console.error("Failed to load preset", e);
+      }
+      const factory = getFactoryPreset(name);
+      return factory ? createPreset(factory.config, { name }) : null;
+    },
+    delete: async (name: string) => {
+      try {
+        await storage.delete(name);
+      } catch (e) {
+        console.error("Failed to delete preset", e);
+        throw e;
+      }
+    },
+    list: async (): Promise<string[]> => {
+      try {
+        return await storage.list();
+      } catch (e) {
+        console.error("Failed to list presets", e);
+        return [];
+      }
+    },
+    // Saves an editable copy of a preset (factory or saved). Returns the name used, or null
+    // if there's no such preset. Rejects if the copy can't be written.
+    clone: async (name: string, newName: string = `${name} copy`): Promise<string | null> => {
+      const preset = await manager.load(name);
+      if (!preset) return null;
+      await manager.save(newName, preset.config, { partial: preset.partial });
+      return newName;
+    },
+    // Validates (throws on anything that isn't a preset), then saves. Returns the name used.
+    // Rejects if the preset can't be written.
+    import: async (input: PresetFile | string, name?: string): Promise<string> => {
+      const preset = parsePreset(input);
+      const finalName = name ?? preset.name ?? 'Imported preset';
+      await manager.save(finalName, preset.config, { partial: preset.partial });
+      return finalName;
+    }
+  };
+  return manager;
+};
+
+export type PresetManagerInstance = ReturnType<typeof createPresetManager>;
+
+// The default: this browser's localStorage
+export const PresetManager = createPresetManager(new LocalPresetStorage());
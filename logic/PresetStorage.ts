@@ -0,0 +1,187 @@
+import { PresetStorage, PresetStorageOption } from '../types';
+
+// Preset backends. They only move text around (one serialized preset per name):
+// parsing, migration and validation stay in PresetManager.
+
+// --- MEMORY ---
+// Gone on reload. For kiosks that load everything from a timeline, and for tests.
+
+export class MemoryPresetStorage implements PresetStorage {
+  private entries: Map<string, string>;
+
+  constructor(initial: Record<string, string> = {}) {
+    this.entries = new Map(Object.entries(initial));
+  }
+
+  public async list() {
+    return [...this.entries.keys()];
+  }
+
+  public async read(name: string) {
+    return this.entries.get(name) ?? null;
+  }
+
+  public async write(name: string, data: string) {
+    this.entries.set(name, data);
+  }
+
+  public async delete(name: string) {
+    this.entries.delete(name);
+  }
+}
+
+// --- LOCAL STORAGE ---
+// The original backend: one key per preset, in this browser profile only
+
+export const LOCAL_STORAGE_PREFIX = 'tetris_flow_preset_';
+
+export class LocalPresetStorage implements PresetStorage {
+  private prefix: string;
+
+  constructor(prefix: string = LOCAL_STORAGE_PREFIX) {
+    this.prefix = prefix;
+  }
+
+  public async list() {
+    return Object.keys(localStorage)
+      .filter(k => k.startsWith(this.prefix))
+      .map(k => k.slice(this.prefix.length));
+  }
+
+  public async read(name: string) {
+    return localStorage.getItem(this.prefix + name);
+  }
+
+  public async write(name: string, data: string) {
+    localStorage.setItem(this.prefix + name, data);
+  }
+
+  public async delete(name: string) {
+    localStorage.removeItem(this.prefix + name);
+  }
+}
+
+// --- INDEXEDDB ---
+// Same reach as localStorage, but no 5 MB cap (large customGrid and targetImage presets)
+
+export class IndexedDBPresetStorage implements PresetStorage {
+  private dbName: string;
+  private storeName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = 'tetris-flow', storeName: string = 'presets') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  public async list() {
+    const keys = await this.request('readonly', store => store.getAllKeys());
+    return keys.map(String);
+  }
+
+  public async read(name: string) {
+    const value = await this.request('readonly', store => store.get(name));
+    return typeof value === 'string' ? value : null;
+  }
+
+  public async write(name: string, data: string) {
+    await this.request('readwrite', store => store.put(data, name));
+  }
+
+  public async delete(name: string) {
+    await this.request('readwrite', store => store.delete(name));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // A failed open can be retried on the next call
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// --- REST ---
+// Shared presets for every machine that points at the same server:
+//   GET    {url}         -> JSON array of names
+//   GET    {url}/{name}  -> the preset (404 if there's none)
+//   PUT    {url}/{name}  <- the preset
+//   DELETE {url}/{name}
+// `npm run preset-server` runs an in-memory one for testing.
+
+export interface RestPresetStorageOptions {
+  headers?: Record<string, string>; // e.g. Authorization
+}
+
+export class RestPresetStorage implements PresetStorage {
+  private url: string;
+  private headers: Record<string, string>;
+
+  constructor(url: string, options: RestPresetStorageOptions = {}) {
+    this.url = url.replace(/\/+$/, '');
+    this.headers = options.headers ?? {};
+  }
+
+  public async list() {
+    const response = await this.send('GET', this.url);
+    const names = await response.json();
+    if (!Array.isArray(names)) throw new Error('Preset server: expected a list of names');
+    return names.map(String);
+  }
+
+  public async read(name: string) {
+    const response = await this.send('GET', this.item(name), undefined, true);
+    return response.status === 404 ? null : response.text();
+  }
+
+  public async write(name: string, data: string) {
+    await this.send('PUT', this.item(name), data);
+  }
+
+  public async delete(name: string) {
+    await this.send('DELETE', this.item(name), undefined, true);
+  }
+
+  private item(name: string) {
+    return `${this.url}/${encodeURIComponent(name)}`;
+  }
+
+  private async send(method: string, url: string, body?: string, allowMissing = false): Promise<Response> {
+    const headers: Record<string, string> = { ...this.headers };
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    const response = await fetch(url, { method, headers, body });
+    if (!response.ok && !(allowMissing && response.status === 404)) {
+      throw new Error(`Preset server: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+}
+
+// The backend named by SDK init options (see PresetStorageOption)
+export const createPresetStorage = (option: PresetStorageOption = 'localStorage'): PresetStorage => {
+  if (typeof option === 'object') {
+    // Anything with the adapter methods is used as is
+    return 'read' in option ? option : new RestPresetStorage(option.url, { headers: option.headers });
+  }
+  switch (option) {
+    case 'memory': return new MemoryPresetStorage();
+    case 'indexedDB': return new IndexedDBPresetStorage();
+    case 'localStorage': return new LocalPresetStorage();
+    default: throw new Error(`Unknown preset storage: ${option}`);
+  }
+};
@@ -0,0 +1,51 @@
+// Deterministic randomness.
+// Everything that should look the same for the same GameConfig.seed goes through here
+// instead of Math.random().
+
+// mulberry32: tiny 32-bit generator, plenty for shuffles and star fields
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Float in [0, 1)
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Integer in [0, max)
+  public nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  // Unbiased in-place Fisher-Yates shuffle
+  public shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+}
+
+// Fresh non-zero seed for configs that ask for one (seed = 0)
+export const createRandomSeed = (): number => {
+  return (Math.floor(Math.random() * 0xfffffffe) + 1) >>> 0;
+};
+
+// Stateless hash of integer coordinates to a float in [0, 1).
+// Used for per-cell effects that must not depend on evaluation order (e.g. 'sparkle').
+// Sticks to 32-bit integer math so it can be mirrored exactly in GLSL.
+export const hashNoise = (seed: number, x: number, y: number, z: number): number => {
+  let h = (seed ^ Math.imul(x | 0, 0x27d4eb2d) ^ Math.imul(y | 0, 0x165667b1) ^ Math.imul(z | 0, 0x1b873593)) >>> 0;
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+};
@@ -0,0 +1,102 @@
+import { GameRecording, RecordedAction } from '../types';
+import { TetrisGame } from './TetrisAI';
+
+// Rebuilds a recorded run on its own TetrisGame.
+// The recorded spawn sequence is fed through pieceSource, so playback never depends
+// on the bag or the AI. Seeking backwards replays from the start, which is cheap:
+// a full board is only a few thousand actions.
+export class ReplayPlayer {
+  public readonly game: TetrisGame;
+  public readonly recording: GameRecording;
+  public time = 0;
+  public speed = 1;
+  public loop = false;
+
+  private cursor = 0;
+  private spawnTypes: string[];
+  private spawnCursor = 0;
+
+  constructor(recording: GameRecording) {
+    this.recording = recording;
+    const { gridRows, gridCols, minLinesToClear } = recording.config;
+
+    this.spawnTypes = recording.actions
+      .filter((a): a is Extract<RecordedAction, { type: 'spawn' }> => a.type === 'spawn')
+      .map(a => a.piece);
+
+    this.game = new TetrisGame(gridRows, gridCols, minLinesToClear, recording.seed);
+    this.game.deferLineClears = true;
+    // Spawn exactly when the recording did (live spawns may wait for the beat grid)
+    this.game.autoSpawn = false;
+    this.game.pieceSource = () => this.spawnTypes[this.spawnCursor++];
+    this.rewind();
+  }
+
+  public get duration(): number {
+    return this.recording.duration;
+  }
+
+  public get playing(): boolean {
+    return this.speed > 0 && (this.loop || this.time < this.duration);
+  }
+
+  public update(dt: number) {
+    if (this.speed <= 0) return;
+    let target = this.time + dt * this.speed;
+
+    if (target >= this.duration && this.loop && this.duration > 0) {
+      this.advanceTo(this.duration);
+      target %= this.duration;
+      this.rewind();
+    }
+    this.advanceTo(Math.min(target, this.duration));
+  }
+
+  // Jump to a point in the recording. Events are muted while skipping.
+  public seek(time: number) {
+    const target = Math.max(0, Math.min(time, this.duration));
+    const sink = this.game.onEvent;
+    this.game.onEvent = undefined;
+
+    if (target < this.time) this.rewind();
+    this.advanceTo(target);
+
+    this.game.onEvent = sink;
+  }
+
+  private rewind() {
+    const { gridRows, gridCols, minLinesToClear, enableLineClear } = this.recording.config;
+    // 'rules' actions may have changed these on the way
+    this.game.setRules(enableLineClear, minLinesToClear);
+    this.game.reset(gridRows, gridCols);
+    // The reset above drew a piece; the recording's own opening 'reset' will draw it again
+    this.spawnCursor = 0;
+    this.cursor = 0;
+    this.time = 0;
+  }
+
+  private advanceTo(time: number) {
+    const { actions } = this.recording;
+    while (this.cursor < actions.length && actions[this.cursor].t <= time) {
+      this.apply(actions[this.cursor++]);
+    }
+    this.time = time;
+  }
+
+  private apply(action: RecordedAction) {
+    const game = this.game;
+    switch (action.type) {
+      // reset() spawns by itself; pieceSource keeps every spawn in sequence
+      case 'spawn':
+        if (!game.currentPiece && !game.gameOver && !game.pendingClear) game.spawnPiece();
+        break;
+      case 'rotate': game.rotatePiece(); break;
+      case 'shift': game.shiftPiece(action.dx); break;
+      case 'drop': game.dropPiece(); break;
+      case 'lock': game.lockPiece(); break;
+      case 'clear': game.finishLineClear(); break;
+      case 'reset': game.reset(action.rows, action.cols); break;
+      case 'rules': game.setRules(action.enableLineClear, action.minLinesToClear); break;
+    }
+  }
+}
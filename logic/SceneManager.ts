@@ -4,11 +4,30 @@ import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer
 import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass';
 import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass';
 import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass';
-import { GameConfig, SHAPES, TetrisEventType } from '../types';
-import { TetrisGame } from './TetrisAI';
+import { BeatPosition, ConfigTransition, CustomAnimation, CustomFrame, GameConfig, GameRecording, LineClearEvent, ReplayOptions, ReplayState, ResetEvent, SHAPES, TetrisEventHandler } from '../types';
+import { ActivePiece, TetrisGame } from './TetrisAI';
+import { getLineClearDuration, getStepInterval, getTickInterval } from './Tempo';
+import { SeededRandom } from './Random';
+import { GameRecorder, parseRecording } from './GameRecorder';
+import { ReplayPlayer } from './ReplayPlayer';
+import { AIDriver } from './AIDriver';
+import { estimateRemainingPieces, loadFillModel, peekFillModel, solveBpm } from './FillTimeModel';
+import { BeatClock } from './BeatClock';
+import { TargetBuilder } from './TargetImage';
+import { FlowShader } from './FlowShader';
+import { CustomAnimationPlayer } from './CustomAnimation';
+import { TextAnimation } from './TextRenderer';
+import { ConfigTween } from './Tween';
+import { Timeline } from './Timeline';
+import { CameraRig } from './CameraRig';
+
+// Scratch color for per-instance writes (no allocations in the frame loop)
+const DIFFUSE = new THREE.Color();
 
 export class SceneManager {
   private container: HTMLElement;
+  private resizeObserver: ResizeObserver;
+  private frameId: number | null = null; // Pending animation frame, cancelled by dispose
   private renderer: THREE.WebGLRenderer;
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
@@ -16,14 +35,34 @@ export class SceneManager {
   private bloomPass: UnrealBloomPass;
   private fog: THREE.FogExp2;
   
-  private game: TetrisGame;
+  private game: TetrisGame;     // The game being shown: the live AI game or a replay's
+  private liveGame: TetrisGame;
   private config: GameConfig;
 
+  // Recording / Replay
+  private recorder: GameRecorder | null = null;
+  private finishedRecording: GameRecording | null = null; // Ended early, waiting for stopRecording
+  private replay: ReplayPlayer | null = null;
+
   // Event Callback
-  private onEvent?: (type: TetrisEventType) => void;
+  private onEvent?: TetrisEventHandler;
 
   // Visual Assets
-  private cubes: THREE.Mesh[] = [];
+  // Every visible cube is one instance of a single InstancedMesh sharing one material.
+  // Per-instance diffuse goes through instanceColor, the neon color through instanceEmissive,
+  // the cell the flow pattern is evaluated at through instanceCell, and the output of a
+  // CPU-side (registered function) style through instanceStyle.
+  private cubeMaterial: THREE.MeshPhysicalMaterial;
+  private cubeMesh: THREE.InstancedMesh;
+  private cubeEmissive: THREE.InstancedBufferAttribute;
+  private cubeCell: THREE.InstancedBufferAttribute;
+  private cubeStyle: THREE.InstancedBufferAttribute;
+  private flow = new FlowShader(); // visualStyle patterns, run in the cube vertex shader
+  private customAnimation: CustomAnimationPlayer | null = null; // Overrides customGrid while set
+  private textAnimation: TextAnimation | null = null;           // showText: over everything, config untouched
+  private configTween: ConfigTween | null = null;               // A transition in progress (config is its current blend)
+  private timeline: Timeline | null = null;
+  private cubeDummy = new THREE.Object3D(); // Scratch transform for setMatrixAt
   private gridGroup: THREE.Group;
   private starSystem: THREE.Points;
   private gridHelper: THREE.GridHelper;
@@ -32,20 +71,64 @@ export class SceneManager {
 
   // Animation State
   private lastTime = 0;
+  private clock = 0; // Seconds of simulated time since start (recording timestamps)
   private moveTimer = 0;
-  private currentMove: { x: number, rotation: number, dropY: number } | null = null;
-  private isProcessingMove = false;
-  private moveStepIndex = 0; // 0: rotate, 1: move X, 2: drop
+  private driver: AIDriver; // Steps the live game's AI moves
+
+  // Beat grid for quantized scheduling (wall-clock seconds, so taps line up with what was heard)
+  private beatClock: BeatClock;
+  private beatTime = 0; // Wall time of the previous scheduling pass
+  private audioBeatLock = false; // Audio input quantizes actions even when config.beatSync is off
+  private audioLevel = 0;         // 0 to 1, fed to visual styles
+
+  // Target-image mode (config.targetImage): the live game builds this picture
+  private target: TargetBuilder | null = null;
+  private celebration: number | null = null; // Seconds into the finished-image celebration
+
+  // Song-length tempo fit: overrides config.bpm until the song ends (see startDurationFit)
+  private durationFit: {
+    start: number;
+    duration: number;
+    targetFill?: number; // The model's top-out fill if not given
+    range: [number, number];
+    bpm: number;
+  } | null = null;
+  private clearElapsed = 0; // Seconds into the current line-clear sequence
+
+  // Rendered (tweened) pose of the active piece. The logical piece in TetrisGame stays
+  // authoritative; this only chases it. Pivot is in grid coords (y down), angle in radians.
+  private pieceVisual: { piece: ActivePiece; pivotX: number; pivotY: number; angle: number } | null = null;
+
+  // Line-clear phases, as fractions of the whole sequence
+  private readonly CLEAR_FLASH_END = 0.3;
+  private readonly CLEAR_BURST_END = 0.65;
+
+  private readonly CELEBRATION_DURATION = 4; // Seconds the finished picture is shown off
+  private readonly TARGET_PLAN_SLICE = 4;     // Milliseconds per frame spent planning a target image
 
   // Constants
   private readonly BOARD_CENTER_Y = 10;
+  private readonly boardCenter = new THREE.Vector3(0, this.BOARD_CENTER_Y, 0);
+
+  private cameraRig: CameraRig;
+  private piecePosition = new THREE.Vector3(); // Scratch for updateCamera
 
-  constructor(container: HTMLElement, config: GameConfig, onEvent?: (type: TetrisEventType) => void) {
+  constructor(container: HTMLElement, config: GameConfig, onEvent?: TetrisEventHandler) {
     this.container = container;
     this.config = config;
     this.onEvent = onEvent;
-    this.game = new TetrisGame(config.gridRows, config.gridCols, config.minLinesToClear);
-    this.game.enableLineClear = config.enableLineClear;
+    this.liveGame = new TetrisGame(config.gridRows, config.gridCols, config.minLinesToClear, config.seed);
+    this.liveGame.enableLineClear = config.enableLineClear;
+    this.applyAIConfig(this.liveGame, config);
+    // Full rows stay on the board until the clear animation has played
+    this.liveGame.deferLineClears = true;
+    // Forward gameplay events (spawn, lock, clears, game over) to the host
+    this.liveGame.onEvent = this.forwardGameEvent;
+    this.game = this.liveGame;
+    this.driver = new AIDriver(this.liveGame);
+    this.beatClock = new BeatClock(config.bpm, config.beatsPerBar, performance.now() / 1000);
+    this.beatClock.phaseOffset = config.beatPhaseOffset ?? 0;
+    this.applyTarget(config, false);
 
     // 1. Setup Three.js
     this.scene = new THREE.Scene();
@@ -61,14 +144,16 @@ export class SceneManager {
     const width = container.clientWidth;
     const height = container.clientHeight;
 
-    this.camera = new THREE.PerspectiveCamera(60, width / height, 0.1, 1000);
-    this.updateCameraPosition();
+    this.camera = new THREE.PerspectiveCamera(config.cameraFov ?? 60, width / height, 0.1, 1000);
+    this.cameraRig = new CameraRig(this.camera);
+    this.updateCamera(performance.now(), 0);
 
     this.renderer = new THREE.WebGLRenderer({ antialias: false, powerPreference: "high-performance" });
     this.renderer.setSize(width, height);
     this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
     this.renderer.toneMapping = THREE.ACESFilmicToneMapping; // Better for bright lights
     this.renderer.toneMappingExposure = 1.2;
+    this.renderer.domElement.style.display = 'block'; // No inline baseline gap under the canvas
     container.appendChild(this.renderer.domElement);
 
     // 2. Post Processing
@@ -111,8 +196,9 @@ export class SceneManager {
     this.initCubesPool();
     this.initStars();
 
-    // Resize handler
-    window.addEventListener('resize', this.onResize);
+    // Follow the container, not the window: embedded boards resize with their layout
+    this.resizeObserver = new ResizeObserver(this.onResize);
+    this.resizeObserver.observe(container);
   }
 
   // Creates a procedural cyberpunk gradient for reflections
@@ -135,15 +221,23 @@ export class SceneManager {
   }
 
   private initStars() {
+    if (this.starSystem) {
+      this.scene.remove(this.starSystem);
+      this.starSystem.geometry.dispose();
+      (this.starSystem.material as THREE.Material).dispose();
+    }
+
     const geometry = new THREE.BufferGeometry();
     const count = 3000;
     const positions = new Float32Array(count * 3);
     const colors = new Float32Array(count * 3);
+    // Own stream derived from the game seed, so the sky doesn't shift the piece sequence
+    const rng = new SeededRandom(this.game.seed ^ 0x5f3759df);
 
     for (let i = 0; i < count; i++) {
-      const r = 120 + Math.random() * 50;
-      const theta = 2 * Math.PI * Math.random();
-      const phi = Math.acos(2 * Math.random() - 1);
+      const r = 120 + rng.next() * 50;
+      const theta = 2 * Math.PI * rng.next();
+      const phi = Math.acos(2 * rng.next() - 1);
       
       const x = r * Math.sin(phi) * Math.cos(theta);
       const y = r * Math.sin(phi) * Math.sin(theta);
@@ -154,7 +248,7 @@ export class SceneManager {
       positions[i*3+2] = z;
 
       // Synthwave colors for stars: Deep Blue, Magenta, White
-      const choice = Math.random();
+      const choice = rng.next();
       const col = new THREE.Color();
       if (choice > 0.8) col.setHex(0xffffff);
       else if (choice > 0.5) col.setHex(0xff00ff);
@@ -216,58 +310,100 @@ export class SceneManager {
     this.gridGroup.position.y = this.BOARD_CENTER_Y - gridRows / 2;
   }
 
-  private initCubesPool() {
-    // Clear old cubes
-    this.cubes.forEach(c => {
-      this.gridGroup.remove(c);
-      c.geometry.dispose();
-      (c.material as THREE.Material).dispose();
+  private createCubeMaterial(): THREE.MeshPhysicalMaterial {
+    // Use MeshPhysicalMaterial for Glass/Translucency effects
+    const material = new THREE.MeshPhysicalMaterial({
+      color: 0xffffff,   // Tinted per instance by instanceColor
+      emissive: 0xffffff, // Scaled per instance by the flow shader
+      emissiveIntensity: 1.0,
+      roughness: this.config.blockRoughness,
+      metalness: this.config.blockMetalness,
+      transmission: this.config.blockTransmission, // Glass effect
+      thickness: this.config.blockThickness, // Volume
+      transparent: true,
+      opacity: this.config.opacity,
+      ior: 1.5, // Glass index of refraction
+      clearcoat: 1.0,
+      clearcoatRoughness: 0.1
     });
-    this.cubes = [];
+
+    // Three has per-instance color but not emissive: the flow shader adds it, flow included
+    material.onBeforeCompile = (shader) => this.flow.patch(shader);
+    material.customProgramCacheKey = () => this.flow.programKey;
+    return material;
+  }
+
+  private initCubesPool() {
+    // Clear the old pool (the shared material outlives it)
+    if (this.cubeMesh) {
+      this.gridGroup.remove(this.cubeMesh);
+      this.cubeMesh.geometry.dispose();
+      this.cubeMesh.dispose();
+    }
+    if (!this.cubeMaterial) this.cubeMaterial = this.createCubeMaterial();
 
     // Slightly bevelled cube for better specular hits
-    const geometry = new THREE.BoxGeometry(0.96, 0.96, 0.96); 
-    
+    const geometry = new THREE.BoxGeometry(0.96, 0.96, 0.96);
+
     // Create ample pool
-    const poolSize = (this.config.gridRows * this.config.gridCols) + 20; 
-    
-    for (let i = 0; i < poolSize; i++) {
-      // Use MeshPhysicalMaterial for Glass/Translucency effects
-      const material = new THREE.MeshPhysicalMaterial({
-        color: 0xffffff,
-        emissive: 0x000000,
-        emissiveIntensity: 1.0,
-        roughness: this.config.blockRoughness,
-        metalness: this.config.blockMetalness,
-        transmission: this.config.blockTransmission, // Glass effect
-        thickness: this.config.blockThickness, // Volume
-        transparent: true,
-        opacity: this.config.opacity,
-        ior: 1.5, // Glass index of refraction
-        clearcoat: 1.0,
-        clearcoatRoughness: 0.1
-      });
-      const mesh = new THREE.Mesh(geometry, material);
-      mesh.visible = false;
-      this.gridGroup.add(mesh);
-      this.cubes.push(mesh);
-    }
+    const poolSize = (this.config.gridRows * this.config.gridCols) + 20;
+
+    this.cubeMesh = new THREE.InstancedMesh(geometry, this.cubeMaterial, poolSize);
+    this.cubeMesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    this.cubeMesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(poolSize * 3), 3);
+    this.cubeMesh.instanceColor.setUsage(THREE.DynamicDrawUsage);
+    this.cubeEmissive = new THREE.InstancedBufferAttribute(new Float32Array(poolSize * 3), 3);
+    this.cubeEmissive.setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute('instanceEmissive', this.cubeEmissive);
+    this.cubeCell = new THREE.InstancedBufferAttribute(new Float32Array(poolSize * 4), 4);
+    this.cubeCell.setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute('instanceCell', this.cubeCell);
+    this.cubeStyle = new THREE.InstancedBufferAttribute(new Float32Array(poolSize * 4), 4);
+    this.cubeStyle.setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute('instanceStyle', this.cubeStyle);
+    this.cubeMesh.count = 0;
+    // Cubes fly outside the board during clears; the cached bounds would cull them
+    this.cubeMesh.frustumCulled = false;
+    this.gridGroup.add(this.cubeMesh);
   }
 
   private onResize = () => {
     if (!this.container) return;
     const width = this.container.clientWidth;
     const height = this.container.clientHeight;
+    if (width === 0 || height === 0) return; // Hidden (display: none): keep the last size
     this.camera.aspect = width / height;
     this.camera.updateProjectionMatrix();
     this.renderer.setSize(width, height);
     this.composer.setSize(width, height);
   };
 
-  public updateConfig(newConfig: GameConfig) {
+  // With a transition, numeric fields glide from where they are now (see ConfigTween);
+  // a zero-length one cancels any transition in progress. Without one, a change made
+  // mid-transition becomes its new destination.
+  public updateConfig(newConfig: GameConfig, transition?: ConfigTransition) {
+    if (transition) {
+      this.configTween = transition.duration > 0 ? new ConfigTween(this.config, newConfig, transition) : null;
+    } else {
+      this.configTween?.retarget(newConfig);
+    }
+    this.applyConfig(this.configTween ? this.configTween.current() : newConfig);
+  }
+
+  private applyConfig(newConfig: GameConfig) {
     const oldConfig = this.config;
+
+    // The replay owns its board; anything that would reset it ends playback first
+    if (this.replay && (
+      oldConfig.gridRows !== newConfig.gridRows ||
+      oldConfig.gridCols !== newConfig.gridCols ||
+      oldConfig.seed !== newConfig.seed
+    )) {
+      this.stopReplay();
+    }
+
     this.config = newConfig;
-    this.game.enableLineClear = newConfig.enableLineClear;
+    this.applyAIConfig(this.liveGame, newConfig);
 
     // Update Post Processing
     this.bloomPass.strength = newConfig.bloomStrength;
@@ -278,63 +414,90 @@ export class SceneManager {
     // Update Environment Intensity
     this.scene.environmentIntensity = 1.0 - newConfig.environmentDimming;
 
-    // Update Materials
-    this.cubes.forEach(cube => {
-      const mat = cube.material as THREE.MeshPhysicalMaterial;
-      mat.opacity = newConfig.opacity;
-      mat.roughness = newConfig.blockRoughness;
-      mat.metalness = newConfig.blockMetalness;
-      mat.transmission = newConfig.blockTransmission;
-      mat.thickness = newConfig.blockThickness;
-    });
+    // Update the shared cube material
+    const mat = this.cubeMaterial;
+    mat.opacity = newConfig.opacity;
+    mat.roughness = newConfig.blockRoughness;
+    mat.metalness = newConfig.blockMetalness;
+    mat.transmission = newConfig.blockTransmission;
+    mat.thickness = newConfig.blockThickness;
     
     // Update Grid Helper Visibility
     this.gridHelper.visible = newConfig.gridVisible;
 
+    // Beat grid
+    // (Presets saved before beat sync existed lack these fields)
+    this.beatClock.beatsPerBar = Math.max(1, Math.round(newConfig.beatsPerBar || 4));
+    this.beatClock.phaseOffset = newConfig.beatPhaseOffset ?? 0;
+    this.applyScheduling();
+
+    // A new seed restarts the run so the sequence matches from the first piece
+    if (oldConfig.seed !== newConfig.seed) {
+      this.game.reseed(newConfig.seed);
+      this.initStars();
+      this.driver.cancel();
+      this.clearElapsed = 0;
+    }
+
     // Check if Grid Dimensions Changed
-    if (oldConfig.gridRows !== newConfig.gridRows || oldConfig.gridCols !== newConfig.gridCols) {
+    const resized = oldConfig.gridRows !== newConfig.gridRows || oldConfig.gridCols !== newConfig.gridCols;
+    if (resized) {
+      // A replay can't follow the board to a new size, so a recording ends here
+      // (stopRecording still returns it)
+      if (this.recorder) {
+        console.warn('Recording ended: the board was resized');
+        this.finishRecording();
+      }
       this.game.reset(newConfig.gridRows, newConfig.gridCols, newConfig.minLinesToClear);
       this.rebuildBoardFrame();
       this.initCubesPool();
-      this.currentMove = null;
-      this.isProcessingMove = false;
+      this.driver.cancel();
+      this.clearElapsed = 0;
     }
-    
-    // If minLines changed, just update game
-    if (oldConfig.minLinesToClear !== newConfig.minLinesToClear) {
-      this.game.minLinesToClear = newConfig.minLinesToClear;
+
+    // The plan depends on the board size too
+    if (resized || JSON.stringify(oldConfig.targetImage) !== JSON.stringify(newConfig.targetImage)) {
+      this.applyTarget(newConfig, true);
+    } else {
+      this.liveGame.setRules(newConfig.enableLineClear && !this.target, newConfig.minLinesToClear);
     }
   }
 
-  private getNeonColor(hueOffset: number): THREE.Color {
+  private applyAIConfig(game: TetrisGame, config: GameConfig) {
+    game.strategy = config.aiStrategy ?? 'greedy';
+    game.aiWeights = config.aiWeights ?? {};
+    game.mistakeRate = config.aiMistakeRate ?? 0.1;
+    game.picture = config.customGrid;
+  }
+
+  private getNeonColor(hueOffset: number, target: THREE.Color = new THREE.Color()): THREE.Color {
     const baseHue = 0.6 + (this.config.temperature * 0.4); 
     const finalHue = (baseHue + hueOffset) % 1.0;
     // High saturation, mid lightness for base color (emissive will handle brightness)
-    return new THREE.Color().setHSL(finalHue, 1.0, 0.5);
+    return target.setHSL(finalHue, 1.0, 0.5);
   }
 
-  private updateCameraPosition(time: number = 0) {
-    const { cameraMode, cameraX, cameraY, cameraZ, rotationSpeed, gridRows } = this.config;
-
-    // We look at the stable center of the board
-    const targetY = this.BOARD_CENTER_Y;
-
-    if (cameraMode === 'manual') {
-      this.camera.position.set(cameraX, cameraY, cameraZ);
-      this.camera.lookAt(0, targetY, 0);
-    } else {
-      // Orbit
-      const angle = time * 0.0001 * rotationSpeed;
-      // We scale distance so the whole board fits, but the target remains the center
-      const dist = Math.max(gridRows * 1.5, 35);
-      
-      this.camera.position.x = Math.sin(angle) * dist;
-      this.camera.position.z = Math.cos(angle) * dist;
-      // Slight Bobbing relative to center
-      this.camera.position.y = targetY + Math.sin(angle * 0.5) * 5;
-      
-      this.camera.lookAt(0, targetY, 0);
+  // Camera placement lives in CameraRig; this gathers what it reacts to
+  private updateCamera(time: number, dt: number) {
+    const { phase, totalBeats } = this.beatClock.getPosition(time / 1000);
+    let piece: THREE.Vector3 | null = null;
+    if (this.pieceVisual) {
+      // Grid cell to world: the group is offset so the board's centre sits at boardCenter
+      const { gridRows, gridCols } = this.config;
+      piece = this.piecePosition.set(
+        this.pieceVisual.pivotX - gridCols / 2,
+        this.BOARD_CENTER_Y + gridRows / 2 - this.pieceVisual.pivotY,
+        0
+      );
     }
+    this.cameraRig.update(this.config, dt, {
+      time,
+      beatSeconds: this.beatClock.getDivisionSeconds('beat'),
+      beatPhase: phase,
+      totalBeats,
+      boardCenter: this.boardCenter,
+      piece
+    });
   }
 
   public render = () => {
@@ -342,7 +505,7 @@ export class SceneManager {
     const dt = (time - this.lastTime) / 1000;
     this.lastTime = time;
 
-    this.updateCameraPosition(time);
+    this.updateCamera(time, dt);
 
     // Star animation
     if (this.starSystem) {
@@ -351,259 +514,605 @@ export class SceneManager {
     }
 
     // --- GAME LOOP LOGIC ---
-    const tickInterval = 60 / Math.max(this.config.bpm, 10);
+    this.clock += dt;
+    this.beatClock.setTempo(this.bpm, time / 1000);
+    if (this.replay) {
+      this.updateReplay(dt);
+    } else {
+      this.updateGame(dt, time / 1000);
+    }
+
+    this.updatePieceTween(dt);
+    const beatSeconds = this.beatClock.getDivisionSeconds('beat');
+    this.timeline?.update(dt, beatSeconds);
+    if (this.configTween) {
+      this.configTween.advance(dt);
+      const config = this.configTween.current();
+      if (this.configTween.done) this.configTween = null;
+      this.applyConfig(config);
+    }
+    this.customAnimation?.advance(dt, beatSeconds);
+    if (this.textAnimation) {
+      this.textAnimation.advance(dt);
+      if (this.textAnimation.finished) this.textAnimation = null; // Back to the configured style
+    }
+
+    this.syncVisuals(time / 1000); // Pass seconds to visual sync
+    this.composer.render();
+    this.frameId = requestAnimationFrame(this.render);
+  };
+
+  // Effective tempo: the duration fit's while one runs, otherwise the config's
+  private get bpm(): number {
+    return this.durationFit ? this.durationFit.bpm : this.config.bpm;
+  }
+
+  // Quantized scheduling is on by config, or forced by beat-locked audio input
+  private get quantized(): boolean {
+    return this.config.beatSync || this.audioBeatLock;
+  }
+
+  // Live AI game: schedule turns and sub-steps on the beat grid, or on free-running
+  // BPM timers when beat sync is off. `now` is wall-clock seconds.
+  private updateGame(dt: number, now: number) {
+    const tickInterval = getTickInterval(this.bpm);
+    const prevBeatTime = this.beatTime;
+    this.beatTime = now;
+
+    // A new target image is still being planned: hold the board until the plan can start
+    if (this.target && !this.target.ready) {
+      if (this.target.work(this.TARGET_PLAN_SLICE)) this.startTarget();
+      return;
+    }
     
+    if (this.celebration !== null) {
+      // Hold the finished picture, then start over
+      this.celebration += dt;
+      if (this.celebration >= this.CELEBRATION_DURATION) {
+        this.emitReset('targetComplete');
+        this.resetBoard();
+      }
+      return;
+    }
+
     if (this.game.gameOver) {
       // Trigger Event Callback
-      if (this.onEvent) {
-        this.onEvent('reset');
-      }
+      this.emitReset(this.game.enableLineClear ? 'topOut' : 'boardFull');
 
       // Fancy reset?
-      this.game.reset();
-      this.currentMove = null;
-      this.isProcessingMove = false;
+      this.resetBoard();
+    }
+
+    // The song is over: end the run now, whatever state the board is in
+    if (this.durationFit && this.clock - this.durationFit.start >= this.durationFit.duration) {
+      this.durationFit = null;
+      this.emitReset('timeUp');
+      this.resetBoard();
     }
 
     this.moveTimer += dt;
-    if (this.moveTimer > tickInterval && !this.isProcessingMove) {
+    if (this.game.pendingClear) {
+      // The game is paused while the clear sequence plays
+      this.clearElapsed += dt;
+      if (this.clearElapsed >= getLineClearDuration(this.bpm)) {
+        this.game.finishLineClear();
+        this.clearElapsed = 0;
+        this.moveTimer = 0;
+        this.updateDurationFit();
+      }
+    } else if (this.quantized) {
+      this.stepOnBeat(prevBeatTime, now);
+    } else if (!this.game.currentPiece) {
+      // Target mode holds spawns back until we know the picture isn't finished
+      if (!this.game.gameOver) this.game.spawnPiece();
+    } else if (this.moveTimer > tickInterval && !this.driver.busy) {
       // AI Turn
-      if (this.game.currentPiece) {
-        this.currentMove = this.game.getBestMove();
-        this.isProcessingMove = true;
-        this.moveStepIndex = 0;
+      if (this.driver.plan()) {
         this.moveTimer = 0;
       }
-    } else if (this.isProcessingMove && this.moveTimer > (tickInterval * 0.15)) {
-      this.performAIInterpStep();
+    } else if (this.driver.busy && this.moveTimer > getStepInterval(this.bpm)) {
+      if (this.driver.step() === 'lock') this.afterLock();
       this.moveTimer = 0;
     }
+  }
 
-    this.syncVisuals(time / 1000); // Pass seconds to visual sync
-    this.composer.render();
-    requestAnimationFrame(this.render);
-  };
+  // One scheduling pass on the beat grid: each kind of action waits for the next
+  // line of its own division. Planning is invisible, so it happens right away.
+  private stepOnBeat(prevTime: number, now: number) {
+    const { spawnOn = 'beat', moveOn = 'sixteenth', lockOn = 'beat' } = this.config;
+    const crossed = (division: typeof spawnOn) => this.beatClock.crossed(division, prevTime, now);
+
+    if (!this.game.currentPiece) {
+      if (!this.game.gameOver && crossed(spawnOn)) this.game.spawnPiece();
+    } else if (!this.driver.busy) {
+      this.driver.plan();
+    } else if (this.driver.landed ? crossed(lockOn) : crossed(moveOn)) {
+      if (this.driver.step() === 'lock') this.afterLock();
+    }
+  }
+
+  private afterLock() {
+    this.updateDurationFit();
+    if (this.target && this.game === this.liveGame && this.target.isComplete(this.game.grid)) {
+      this.completeTarget();
+    }
+  }
+
+  // Spawns are ours to place while quantized or building a picture; otherwise the game spawns on lock
+  private applyScheduling() {
+    const manual = this.quantized || this.target !== null;
+    this.liveGame.autoSpawn = !manual;
+    // Switching back to free-running with a spawn still pending: do it now
+    if (!manual && !this.liveGame.currentPiece && !this.liveGame.gameOver && !this.liveGame.pendingClear) {
+      this.liveGame.spawnPiece();
+    }
+  }
+
+  // --- TARGET IMAGE ---
+
+  // (Re)plan the picture for the current board. Line clears are off while one is set.
+  // The plan is searched a slice per frame (see updateGame) and the game waits for it.
+  private applyTarget(config: GameConfig, restart: boolean) {
+    const image = config.targetImage ?? [];
+    const hasImage = image.some(row => /[^. ]/.test(row));
+    this.target = hasImage ? new TargetBuilder(image, config.gridRows, config.gridCols) : null;
+    this.liveGame.target = null;
+    this.liveGame.setRules(config.enableLineClear && !this.target, config.minLinesToClear);
+    this.celebration = null;
+    this.applyScheduling();
+    if (!this.target && restart) this.restartLiveBoard();
+  }
+
+  // The plan is ready: build it from an empty board (the first draw already came from the bag)
+  private startTarget() {
+    this.liveGame.target = this.target;
+    this.restartLiveBoard();
+  }
+
+  private restartLiveBoard() {
+    this.liveGame.reset();
+    this.driver.cancel();
+    if (this.game === this.liveGame) this.clearElapsed = 0;
+  }
+
+  private completeTarget() {
+    if (this.onEvent) {
+      this.onEvent('targetComplete', {
+        piecesPlaced: this.game.piecesPlaced,
+        exact: this.target?.exact ?? false
+      });
+    }
+    if (this.config.targetCompleteAction === 'reset') {
+      this.emitReset('targetComplete');
+      this.resetBoard();
+    } else {
+      this.celebration = 0;
+    }
+  }
+
+  // --- BEAT INPUT ---
+
+  // Tap tempo: returns the tapped BPM (null until two taps). Callers apply it to config.bpm.
+  public tap(): number | null {
+    return this.beatClock.tap(performance.now() / 1000);
+  }
+
+  public setBeatPhase(phase: number, beatInBar?: number) {
+    this.beatClock.setBeatPhase(phase, performance.now() / 1000, beatInBar);
+  }
+
+  public getBeatPosition(): BeatPosition {
+    return this.beatClock.getPosition(performance.now() / 1000);
+  }
+
+  // Audio input: quantize actions to the grid while detected beats keep it aligned
+  public setBeatLock(enabled: boolean) {
+    this.audioBeatLock = enabled;
+    this.applyScheduling();
+  }
+
+  // --- CUSTOM GRID ANIMATION ---
+
+  public loadCustomAnimation(animation: CustomAnimation | null) {
+    this.customAnimation = animation ? new CustomAnimationPlayer(animation) : null;
+  }
+
+  // Frames pushed without an animation playing form a live queue (no looping)
+  public pushCustomFrame(frame: CustomFrame) {
+    if (!this.customAnimation) this.customAnimation = new CustomAnimationPlayer({ frames: [], loop: false });
+    this.customAnimation.push(frame);
+  }
+
+  // Text plays over whatever style is configured and leaves it as it was when done
+  public showText(animation: TextAnimation) {
+    this.textAnimation = animation;
+  }
 
-  private performAIInterpStep() {
-    if (!this.currentMove || !this.game.currentPiece) {
-      this.isProcessingMove = false;
+  public hideText() {
+    this.textAnimation = null;
+  }
+
+  // The host owns the timeline (its cues call back into the API); the frame loop clocks it
+  public setTimeline(timeline: Timeline | null) {
+    this.timeline = timeline;
+  }
+
+  // Fresh board on request (a timeline cue). A replay goes back to its start instead.
+  public restart() {
+    if (this.replay) {
+      this.seekReplay(0);
       return;
     }
+    this.emitReset('cue');
+    this.resetBoard();
+  }
 
-    // Step 1: Rotate
-    if (this.moveStepIndex === 0) {
-      const targetRot = this.currentMove.rotation;
-      for(let i=0; i<targetRot; i++) {
-        this.game.currentPiece.shape = this.game.rotateShape(this.game.currentPiece.shape);
-      }
-      this.moveStepIndex++;
-    } 
-    // Step 2: Move X
-    else if (this.moveStepIndex === 1) {
-      if (this.game.currentPiece.x < this.currentMove.x) this.game.currentPiece.x++;
-      else if (this.game.currentPiece.x > this.currentMove.x) this.game.currentPiece.x--;
-      else this.moveStepIndex++;
-    }
-    // Step 3: Drop
-    else if (this.moveStepIndex === 2) {
-       // Step by step falling
-       if (!this.game.checkCollision(this.game.currentPiece.shape, this.game.currentPiece.x, this.game.currentPiece.y + 1)) {
-         this.game.currentPiece.y++;
-       } else {
-         // Lock
-         this.game.lockPiece();
-         this.isProcessingMove = false;
-         this.currentMove = null;
-       }
+  // Audio input level for visual styles (0 when no audio is connected)
+  public setAudioLevel(level: number) {
+    this.audioLevel = Math.max(0, Math.min(1, level));
+  }
+
+  // Called by the audio analyzer on every detected beat: pull the grid onto it
+  public notifyBeat() {
+    this.beatClock.setBeatPhase(0, performance.now() / 1000);
+  }
+
+  private emitReset(reason: ResetEvent['reason']) {
+    if (this.onEvent) {
+      this.onEvent('reset', {
+        reason,
+        piecesPlaced: this.game.piecesPlaced,
+        linesCleared: this.game.linesCleared
+      });
     }
   }
 
-  private syncVisuals(time: number) {
-    // Hide all cubes first
-    this.cubes.forEach(c => c.visible = false);
-    let cubeIdx = 0;
+  // --- DURATION FIT ---
+
+  // Restart the board and pace it so it reaches targetFill as `duration` seconds run out.
+  // The tempo is re-solved after every lock from the board's actual fill, so early luck
+  // or bad packing is corrected as the song plays. Returns the starting BPM (the current
+  // one if the board's fill model is still being calibrated: the fit takes over once it is).
+  public startDurationFit(duration: number, options: { targetFill?: number; bpmRange: [number, number] }): number {
+    if (this.replay) this.stopReplay();
+    this.durationFit = {
+      start: this.clock,
+      duration,
+      targetFill: options.targetFill,
+      range: options.bpmRange,
+      bpm: this.config.bpm
+    };
+    this.resetBoard();
+    this.updateDurationFit();
+    return this.durationFit.bpm;
+  }
 
-    const { gridRows, gridCols, visualStyle, flowSpeed, customGrid } = this.config;
-
-    // Helper: Apply visual FX pattern
-    // Returns a factor to multiply emissive by
-    const getFlowFactor = (x: number, y: number, time: number): number => {
-      // Normalize coords
-      const nx = (x - gridCols / 2) / (gridCols / 2);
-      const ny = (y - gridRows / 2) / (gridRows / 2); // -1 to 1 roughly
-      const t = time * flowSpeed;
-
-      switch (visualStyle) {
-        case 'none': return 1.0;
-        
-        case 'custom': {
-           // Read from the customGrid provided via API
-           // We map board Y (0 at bottom) to customGrid Y (usually 0 at top, so we flip)
-           // If customGrid isn't provided or out of bounds, return default
-           if (!customGrid || customGrid.length === 0) return 1.0;
-           
-           // We'll try to map logic coords to grid coords
-           // y is 0 (bottom) -> rows-1 (top).
-           // Typically bitmaps are 0 (top) -> rows-1 (bottom).
-           const matrixY = (customGrid.length - 1) - y; 
-           const matrixX = x;
-
-           if (matrixY >= 0 && matrixY < customGrid.length) {
-             const row = customGrid[matrixY];
-             if (row && matrixX >= 0 && matrixX < row.length) {
-                return row[matrixX]; // Returns the brightness value directly
-             }
-           }
-           return 0.1; // Dim if out of defined pattern
-        }
+  public stopDurationFit() {
+    this.durationFit = null;
+  }
 
-        case 'wave':
-          // Diagonal sine wave
-          return 1.2 + 0.8 * Math.sin(nx * 3 + ny * 3 - t);
-
-        case 'plasma':
-          // Multi-sine plasma
-          const v = Math.sin(nx * 4 + t) + Math.sin(ny * 4 + t) + Math.sin((nx + ny) * 5 + t);
-          return 1.2 + 0.6 * v; 
-
-        case 'heart': {
-          // Pulsing Heart Shape Math
-          const beat = 1.0 + 0.2 * Math.sin(t * 5) + 0.1 * Math.sin(t * 10); // rapid beat
-          const hx = nx * 1.5 * beat;
-          const hy = (ny + 0.3) * 1.5 * beat;
-          const a = hx * hx + hy * hy - 1;
-          const result = a * a * a - hx * hx * hy * hy * hy;
-          return result <= 0 ? 4.0 : 0.1;
-        }
+  private updateDurationFit() {
+    const fit = this.durationFit;
+    if (!fit) return;
+    const { gridRows, gridCols, enableLineClear, minLinesToClear, aiStrategy, aiWeights, aiMistakeRate } = this.config;
+    const ai = { strategy: aiStrategy, aiWeights, mistakeRate: aiMistakeRate };
+    const model = peekFillModel(gridRows, gridCols, enableLineClear, minLinesToClear, ai);
+    if (!model) {
+      // Keep the tempo we have until this board's model is calibrated, then solve again
+      loadFillModel(gridRows, gridCols, enableLineClear, minLinesToClear, ai).then(() => {
+        if (this.durationFit === fit) this.updateDurationFit();
+      });
+      return;
+    }
+    const remainingSeconds = fit.duration - (this.clock - fit.start);
+    const pieces = estimateRemainingPieces(model, gridRows, gridCols, this.game.getFillRatio(), fit.targetFill ?? model.topOutFill);
+    fit.bpm = solveBpm(model, pieces, remainingSeconds, fit.range);
+  }
 
-        case 'matrix': {
-          // Digital Rain: Falls from top to bottom
-          // Use column index to generate a pseudo-random offset
-          // x is integer column index 0..cols
-          const colSeed = Math.sin(x * 123.456) * 1000;
-          const speed = flowSpeed * 4.0;
-          // Calculate a dropping "head" position
-          // y goes from 0 (bottom) to gridRows (top)
-          const gridHeight = gridRows;
-          // We want it falling, so phase goes negative or we subtract
-          const phase = (t * speed + colSeed) % (gridHeight * 1.5);
-          // Head Y position (world space)
-          const headY = gridHeight - phase + (gridHeight * 0.25);
-          
-          const dist = headY - y;
-          // Trail length = 8
-          if (dist > 0 && dist < 8) {
-             return 2.5 * (1 - (dist / 8)); // Bright head, fading tail
-          }
-          return 0.05; // Dim background
-        }
+  // Replay: the recording decides every move; the clear animation follows its clock
+  private updateReplay(dt: number) {
+    if (!this.replay) return;
+    this.replay.update(dt);
+    if (this.game.pendingClear) {
+      this.clearElapsed += dt * this.replay.speed;
+    } else {
+      this.clearElapsed = 0;
+    }
+  }
 
-        case 'fire': {
-           // Hot at bottom (y=0), Cold at top
-           // Add noise turbulence
-           const turbulence = Math.sin(x * 2.0 + t * 2.0) + Math.sin(y * 0.5 - t * 5.0);
-           const heightFactor = 1.0 - (y / gridRows); // 1.0 at bottom, 0 at top
-           const intensity = heightFactor * heightFactor * 3.0 + (turbulence * 0.5);
-           return Math.max(0.1, intensity);
-        }
+  private resetBoard() {
+    this.game.reset();
+    this.driver.cancel();
+    this.clearElapsed = 0;
+    this.celebration = null;
+  }
 
-        case 'scanline': {
-           // Horizontal bar moving up and down
-           const period = 4.0 / flowSpeed;
-           const normTime = (time % period) / period; // 0 to 1
-           const scanY = normTime * gridRows; // 0 to top
-           // Make it bounce? or loop? Loop is fine.
-           // Bouncing:
-           // const bounce = Math.sin(time * flowSpeed) * 0.5 + 0.5; 
-           // const scanY = bounce * gridRows;
-           
-           const dist = Math.abs(y - scanY);
-           if (dist < 1.5) {
-             return 3.0 * (1 - dist/1.5);
-           }
-           return 0.1;
-        }
+  private forwardGameEvent: TetrisEventHandler = (type, payload) => {
+    if (type === 'lineClear') this.cameraRig.punch((payload as LineClearEvent).count);
+    if (this.onEvent) this.onEvent(type, payload);
+  };
 
-        case 'sparkle': {
-           // Random flashing
-           // We use a noise function based on discrete time buckets
-           // Bucket size implies duration of sparkle
-           const bucket = Math.floor(time * 5.0 * flowSpeed); // Change 5x per second * speed
-           // Pseudo random hash
-           const hash = Math.sin(x * 12.9898 + y * 78.233 + bucket * 43758.5453);
-           // If hash > threshold, light up
-           // Math.sin range -1 to 1. 
-           if (hash > 0.8) return 3.0;
-           return 0.2;
-        }
+  // --- RECORDING ---
+
+  // Restarts the live board so the recording holds the whole run from its first piece
+  public startRecording() {
+    if (this.replay) this.stopReplay();
+    this.finishedRecording = null;
+    this.recorder = new GameRecorder(this.game.seed, this.config, this.clock);
+    this.game.onAction = (action) => this.recorder?.record(action, this.clock);
+    // The rules in force, which can differ from the config's (a target image turns clears off).
+    // Later changes come through onAction.
+    const { enableLineClear, minLinesToClear } = this.game;
+    this.recorder.record({ type: 'rules', enableLineClear, minLinesToClear }, this.clock);
+    this.resetBoard();
+  }
 
-        default: return 1.0;
-      }
+  // The recording in progress, or the one a resize ended since
+  public stopRecording(): GameRecording | null {
+    if (this.recorder) this.finishRecording();
+    const recording = this.finishedRecording;
+    this.finishedRecording = null;
+    return recording;
+  }
+
+  private finishRecording() {
+    if (!this.recorder) return;
+    this.finishedRecording = this.recorder.finish(this.clock);
+    this.recorder = null;
+    this.liveGame.onAction = undefined;
+  }
+
+  // --- REPLAY ---
+
+  // Note: adopts the recording's board size and line-clear rules (visual settings stay as they are).
+  // Hosts should mirror those fields in their own config state.
+  public playRecording(input: GameRecording | string, options: ReplayOptions = {}) {
+    const recording = parseRecording(input);
+    this.stopRecording();
+    if (this.replay) this.stopReplay();
+
+    const { gridRows, gridCols, minLinesToClear, enableLineClear } = recording.config;
+    // Zero-length transition: a glide in progress would otherwise keep its old board size
+    this.updateConfig({ ...this.config, gridRows, gridCols, minLinesToClear, enableLineClear }, { duration: 0 });
+
+    this.replay = new ReplayPlayer(recording);
+    this.replay.speed = options.speed ?? 1;
+    this.replay.loop = options.loop ?? false;
+    this.replay.game.onEvent = this.forwardGameEvent;
+    this.game = this.replay.game;
+    this.clearElapsed = 0;
+    this.initStars(); // Match the recorded sky
+  }
+
+  public setReplaySpeed(speed: number) {
+    if (this.replay) this.replay.speed = Math.max(0, speed);
+  }
+
+  public seekReplay(time: number) {
+    if (!this.replay) return;
+    this.replay.seek(time);
+    this.clearElapsed = 0;
+  }
+
+  public stopReplay() {
+    if (!this.replay) return;
+    this.replay.game.onEvent = undefined;
+    this.replay = null;
+    this.game = this.liveGame;
+    this.clearElapsed = 0;
+    this.initStars();
+  }
+
+  public getReplayState(): ReplayState | null {
+    if (!this.replay) return null;
+    return {
+      time: this.replay.time,
+      duration: this.replay.duration,
+      speed: this.replay.speed,
+      playing: this.replay.playing
     };
+  }
+
+  private syncVisuals(time: number) {
+    // Cubes are written to instances 0..cubeIdx-1; the rest aren't drawn
+    const capacity = this.cubeMesh.instanceMatrix.count;
+    const cube = this.cubeDummy;
+    let cubeIdx = 0;
+
+    const { gridRows } = this.config;
+    const flow = this.flow;
+    const shaderChanged = flow.update(this.config, {
+      time,
+      seed: this.game.seed,
+      beatPhase: this.beatClock.getPosition(time).phase,
+      audioLevel: this.audioLevel,
+      customGrid: this.textAnimation ? this.textAnimation.current() : this.customAnimation?.current(this.beatClock.getDivisionSeconds('beat')),
+      visualStyle: this.textAnimation ? 'custom' : undefined
+    });
+    if (shaderChanged) this.cubeMaterial.needsUpdate = true; // A GLSL style was registered
+
+    // Commits the scratch transform in `cube` as the next instance, with its colors.
+    // x, y: the cell the flow pattern is sampled at (column, visual row)
+    // flash: 0..1 extra white-hot glow used by the line-clear sequence
+    const emitCube = (x: number, y: number, type: string, colorOffset: number, flash: number = 0) => {
+       const baseColor = this.getNeonColor(colorOffset, DIFFUSE);
+
+       if (flow.cpuStyle) {
+         const out = flow.sample(x, y, type);
+         this.cubeStyle.setXYZW(cubeIdx, out.brightness, out.hueShift, out.scale, out.zOffset);
+       }
+
+       cube.updateMatrix();
+       this.cubeMesh.setMatrixAt(cubeIdx, cube.matrix);
+
+       // Emissive is where the neon logic lives: the shader scales it by the flow pattern
+       this.cubeEmissive.setXYZ(cubeIdx, baseColor.r, baseColor.g, baseColor.b);
+       this.cubeCell.setXYZW(cubeIdx, x, y, flow.pieceIndex(type), flash);
 
-    const updateMesh = (mesh: THREE.Mesh, x: number, y: number, colorOffset: number) => {
-       const mat = mesh.material as THREE.MeshPhysicalMaterial;
-       const baseColor = this.getNeonColor(colorOffset);
-       
-       const flow = getFlowFactor(x, y, time);
-       
        // Update Color
        // For physical material, we keep color somewhat dark to allow specular highlights to pop
        // We drive the "Glow" via emissive
-       
-       mat.color.copy(baseColor).multiplyScalar(0.5); // Darker diffuse for glass look
-       
-       // Emissive is where the neon logic lives
-       // If flow > 1, it gets brighter. If flow < 1, it dims.
-       mat.emissive.copy(baseColor).multiplyScalar(flow * 1.5);
+       this.cubeMesh.setColorAt(cubeIdx, baseColor.multiplyScalar(0.5)); // Darker diffuse for glass look
+       cubeIdx++;
     };
 
+    // Line-clear sequence progress (null when no clear is playing)
+    const clearRows = this.game.pendingClear;
+    const clearProgress = clearRows
+      ? Math.min(1, this.clearElapsed / getLineClearDuration(this.bpm))
+      : 0;
+
     // 1. Render Static Grid
     for (let r = 0; r < gridRows; r++) {
+      const isClearing = clearRows !== null && clearRows.includes(r);
+      // Rows above a clear fall by the number of cleared rows beneath them
+      const fallRows = clearRows ? clearRows.filter(idx => idx > r).length : 0;
+
       for (let c = 0; c < this.config.gridCols; c++) {
         const cell = this.game.grid[r][c];
         if (cell) {
-          if (cubeIdx >= this.cubes.length) break;
-          const mesh = this.cubes[cubeIdx++];
+          if (cubeIdx >= capacity) break;
           
           // Visual Y is inverted relative to logical row
           const visY = (gridRows - 1 - r);
-          mesh.position.set(c + 0.5, visY + 0.5, 0);
-          
           const shapeDef = SHAPES[cell] || SHAPES['I'];
-          mesh.visible = true;
-          updateMesh(mesh, c, visY, shapeDef.colorOffset);
+
+          if (isClearing) {
+            // Cleared rows are gone once the stack starts falling
+            if (clearProgress >= this.CLEAR_BURST_END) continue;
+            this.placeClearingCube(cube, c, visY, clearProgress);
+            const flash = clearProgress < this.CLEAR_FLASH_END
+              ? Math.abs(Math.sin((clearProgress / this.CLEAR_FLASH_END) * Math.PI * 2.5)) // Ends at full glow
+              : 1;
+            emitCube(c, visY, cell, shapeDef.colorOffset, flash);
+            continue;
+          }
+
+          let drop = 0;
+          if (fallRows > 0 && clearProgress > this.CLEAR_BURST_END) {
+            const t = (clearProgress - this.CLEAR_BURST_END) / (1 - this.CLEAR_BURST_END);
+            drop = fallRows * t * t; // Ease-in, like gravity
+          }
+          cube.position.set(c + 0.5, visY + 0.5 - drop, 0);
+          cube.scale.setScalar(1);
+          cube.rotation.set(0, 0, 0);
+          // A finished picture shimmers with a diagonal sweep
+          const glow = this.celebration === null ? 0
+            : Math.min(1, this.celebration * 2) * (0.5 + 0.5 * Math.sin(this.celebration * 6 - (c + visY) * 0.5));
+          emitCube(c, visY, cell, shapeDef.colorOffset, glow);
         }
       }
     }
 
     // 2. Render Active Piece
-    if (this.game.currentPiece) {
-      const { shape, x, y, colorOffset } = this.game.currentPiece;
+    // Cubes are laid out from the spawn-orientation shape and turned around the pivot
+    // by the tweened angle, so at rest they land exactly on the logical cells.
+    if (this.game.currentPiece && this.pieceVisual) {
+      const { type, colorOffset } = this.game.currentPiece;
+      const def = SHAPES[type];
+      const { pivotX, pivotY, angle } = this.pieceVisual;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      const basePivotX = def.pivot.x + 0.5;
+      const basePivotY = def.pivot.y + 0.5;
       
-      for (let r = 0; r < shape.length; r++) {
-        for (let c = 0; c < shape[r].length; c++) {
-          if (shape[r][c]) {
-             if (cubeIdx >= this.cubes.length) break;
-             const mesh = this.cubes[cubeIdx++];
+      for (let r = 0; r < def.shape.length; r++) {
+        for (let c = 0; c < def.shape[r].length; c++) {
+          if (def.shape[r][c]) {
+             if (cubeIdx >= capacity) break;
+             
+             // Cell centre relative to the pivot, rotated clockwise (grid y points down)
+             const dx = c + 0.5 - basePivotX;
+             const dy = r + 0.5 - basePivotY;
+             const cellX = pivotX + dx * cos - dy * sin;
+             const cellY = pivotY + dx * sin + dy * cos;
              
-             const gridX = x + c;
-             const gridY = y + r;
+             const gridX = Math.floor(cellX);
+             const gridY = Math.floor(cellY);
              
              if (gridY >= 0 && gridY < gridRows) {
                const visY = (gridRows - 1 - gridY);
-               mesh.position.set(gridX + 0.5, visY + 0.5, 0);
-               mesh.visible = true;
-               updateMesh(mesh, gridX, visY, colorOffset);
+               cube.position.set(cellX, gridRows - cellY, 0);
+               cube.scale.setScalar(1);
+               cube.rotation.set(0, 0, -angle);
+               emitCube(gridX, visY, type, colorOffset);
              }
           }
         }
       }
     }
+
+    this.cubeMesh.count = cubeIdx;
+    this.cubeMesh.instanceMatrix.needsUpdate = true;
+    if (this.cubeMesh.instanceColor) this.cubeMesh.instanceColor.needsUpdate = true;
+    this.cubeEmissive.needsUpdate = true;
+    this.cubeCell.needsUpdate = true;
+    if (flow.cpuStyle) this.cubeStyle.needsUpdate = true;
+  }
+
+  // Ease the rendered piece toward the logical one. A new piece snaps into place.
+  private updatePieceTween(dt: number) {
+    const piece = this.game.currentPiece;
+    if (!piece) {
+      this.pieceVisual = null;
+      return;
+    }
+
+    const targetX = piece.x + piece.pivot.x;
+    const targetY = piece.y + piece.pivot.y;
+    const targetAngle = piece.rotation * (Math.PI / 2);
+
+    if (!this.pieceVisual || this.pieceVisual.piece !== piece) {
+      this.pieceVisual = { piece, pivotX: targetX, pivotY: targetY, angle: targetAngle };
+      return;
+    }
+
+    // Rotation wraps 3 -> 0; keep turning forward instead of spinning back
+    let angleDelta = targetAngle - this.pieceVisual.angle;
+    angleDelta = ((angleDelta % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+    if (angleDelta > Math.PI * 1.5) angleDelta -= Math.PI * 2;
+
+    // Time constant tied to the AI step so motion reads as continuous at any BPM
+    const stepSeconds = this.quantized
+      ? this.beatClock.getDivisionSeconds(this.config.moveOn || 'sixteenth')
+      : getStepInterval(this.bpm);
+    const tau = stepSeconds * 0.35;
+    const k = 1 - Math.exp(-Math.max(dt, 0) / tau);
+    this.pieceVisual.pivotX += (targetX - this.pieceVisual.pivotX) * k;
+    this.pieceVisual.pivotY += (targetY - this.pieceVisual.pivotY) * k;
+    this.pieceVisual.angle = (this.pieceVisual.angle + angleDelta * k) % (Math.PI * 2);
+  }
+
+  // Flash in place, then burst outward toward the camera while shrinking
+  private placeClearingCube(cube: THREE.Object3D, x: number, visY: number, progress: number) {
+    const { gridCols } = this.config;
+    cube.position.set(x + 0.5, visY + 0.5, 0);
+    cube.rotation.set(0, 0, 0);
+    cube.scale.setScalar(1);
+
+    if (progress <= this.CLEAR_FLASH_END) return;
+
+    const t = (progress - this.CLEAR_FLASH_END) / (this.CLEAR_BURST_END - this.CLEAR_FLASH_END);
+    // Stable per-cell jitter so every cube flies its own way
+    const jitter = Math.sin(x * 12.9898 + visY * 78.233) * 0.5;
+    const spread = (x + 0.5 - gridCols / 2) / (gridCols / 2); // -1 (left) to 1 (right)
+
+    cube.position.x += spread * t * 4;
+    cube.position.y += jitter * t * 3;
+    cube.position.z += t * (4 + jitter * 4);
+    cube.rotation.set(t * Math.PI * jitter, t * Math.PI * 2 * spread, 0);
+    cube.scale.setScalar(Math.max(0.001, 1 - t));
   }
 
   public dispose() {
-    window.removeEventListener('resize', this.onResize);
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    this.resizeObserver.disconnect();
+    this.cubeMesh.geometry.dispose();
+    this.cubeMesh.dispose();
+    this.cubeMaterial.dispose();
+    this.flow.dispose();
     this.renderer.dispose();
+    this.renderer.domElement.remove();
   }
 }
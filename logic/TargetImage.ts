@@ -0,0 +1,282 @@
+import { GridMatrix, SHAPES, TargetImageInput } from '../types';
+import { Placement } from './AIStrategies';
+
+// Target-image stacking: turn a bitmap into an ordered list of piece placements that,
+// played one after another, leave exactly that picture on the board.
+//
+// The plan is an exact cover of the image by tetrominoes, searched bottom-up so every
+// piece has something to rest on and a clear path from where it spawns: rotated at the
+// spawn point, shifted along the top row, then dropped straight down (as AIDriver plays it).
+// Because the plan also decides which piece comes next, it replaces the bag while the
+// image is built.
+//
+// The search can take a while on big boards, so it runs in slices: call work() until
+// it reports the plan is ready.
+
+export const TARGET_EMPTY = '.';
+export const TARGET_ANY = '#';
+
+export interface PlannedPiece extends Placement {
+  type: string;
+}
+
+// Depth-first search budget per pass: images with no tiling give up instead of searching forever
+const SEARCH_LIMIT = 200000;
+// Search nodes between checks of work()'s time budget
+const SLICE_NODES = 16;
+// Tried in this order on '#' cells. Boxy pieces first tile plain regions most easily.
+const TYPE_ORDER = ['O', 'I', 'L', 'J', 'T', 'S', 'Z'];
+
+// --- INPUT ---
+
+const hexToHue = (hex: string): number | null => {
+  const match = hex.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  let digits = match[1];
+  if (digits.length === 3) digits = digits.split('').map(d => d + d).join('');
+  const r = parseInt(digits.slice(0, 2), 16) / 255;
+  const g = parseInt(digits.slice(2, 4), 16) / 255;
+  const b = parseInt(digits.slice(4, 6), 16) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  if (max === min) return null; // Grey: no hue to match
+  const d = max - min;
+  let h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return h / 6;
+};
+
+// Nearest piece by hue, using the same palette the renderer derives from temperature
+const colorToPieceType = (hex: string, temperature: number): string => {
+  const hue = hexToHue(hex);
+  if (hue === null) return TARGET_ANY;
+  const baseHue = 0.6 + temperature * 0.4;
+  let best = TARGET_ANY;
+  let bestDistance = Infinity;
+  for (const [type, def] of Object.entries(SHAPES)) {
+    const pieceHue = (baseHue + def.colorOffset) % 1.0;
+    const diff = Math.abs(pieceHue - hue);
+    const distance = Math.min(diff, 1 - diff);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = type;
+    }
+  }
+  return best;
+};
+
+const normalizeCell = (cell: string | null | undefined, temperature: number): string => {
+  if (!cell || cell === ' ' || cell === TARGET_EMPTY) return TARGET_EMPTY;
+  const upper = cell.toUpperCase();
+  if (upper === TARGET_ANY || SHAPES[upper]) return upper;
+  if (cell.length > 1) return colorToPieceType(cell, temperature);
+  return TARGET_ANY; // Any other mark just means "filled"
+};
+
+// Accepts any TargetImageInput and returns the string-row form stored in GameConfig
+export const normalizeTargetImage = (input: TargetImageInput, temperature: number): string[] => {
+  return input.map(row => {
+    const cells = typeof row === 'string' ? row.split('') : row;
+    return cells.map(cell => normalizeCell(cell, temperature)).join('');
+  });
+};
+
+// --- PLANNING ---
+
+interface Orientation {
+  rotation: number;
+  shape: number[][];
+  anchorRow: number; // Bottom-most, then left-most filled cell: the first one the scan reaches
+  anchorCol: number;
+}
+
+const rotateShape = (shape: number[][]): number[][] =>
+  shape[0].map((_, col) => shape.map(row => row[col]).reverse());
+
+const ORIENTATIONS: Record<string, Orientation[]> = {};
+for (const [type, def] of Object.entries(SHAPES)) {
+  const seen = new Set<string>();
+  ORIENTATIONS[type] = [];
+  let shape = def.shape;
+  for (let rotation = 0; rotation < 4; rotation++) {
+    const key = JSON.stringify(shape);
+    if (!seen.has(key)) {
+      seen.add(key);
+      const anchorRow = shape.length - 1;
+      ORIENTATIONS[type].push({ rotation, shape, anchorRow, anchorCol: shape[anchorRow].indexOf(1) });
+    }
+    shape = rotateShape(shape);
+  }
+}
+
+// Column a piece spawns at, as TetrisGame.spawnPiece centres it
+const spawnX = (type: string, cols: number) => Math.floor((cols - SHAPES[type].shape[0].length) / 2);
+
+// Builds and holds the plan for one image on one board size.
+// Stateless while playing: progress is the game's own piecesPlaced count.
+export class TargetBuilder {
+  public readonly rows: number;
+  public readonly cols: number;
+  // Board-aligned requirement per cell: null = stays empty, '#' or a piece type
+  public readonly need: (string | null)[][];
+  // Both set once ready (plan stays null if the image can't be built)
+  public plan: PlannedPiece[] | null = null;
+  public exact = false; // Plan honours the requested piece types and adds no extra cells
+  public ready = false;
+
+  private job: Generator<void, void>;
+
+  constructor(image: string[], rows: number, cols: number) {
+    this.rows = rows;
+    this.cols = cols;
+    // Bottom-aligned like customGrid; anything outside the board is dropped
+    const offset = image.length - rows;
+    this.need = Array.from({ length: rows }, (_, r) => Array.from({ length: cols }, (_, c) => {
+      const cell = image[r + offset]?.[c];
+      return cell && cell !== TARGET_EMPTY ? cell : null;
+    }));
+
+    this.job = this.build();
+  }
+
+  // Searches for up to `budgetMs` milliseconds. Returns true once the plan is ready.
+  public work(budgetMs: number): boolean {
+    const end = performance.now() + budgetMs;
+    while (!this.ready) {
+      this.job.next();
+      if (performance.now() >= end) break;
+    }
+    return this.ready;
+  }
+
+  // Piece the plan wants after `placed` pieces (undefined once the plan is done)
+  public nextType(placed: number): string | undefined {
+    return this.plan?.[placed]?.type;
+  }
+
+  public placementFor(placed: number): Placement | null {
+    const piece = this.plan?.[placed];
+    return piece ? { x: piece.x, rotation: piece.rotation, dropY: piece.dropY } : null;
+  }
+
+  public isComplete(grid: GridMatrix): boolean {
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        if (this.need[r][c] && !grid[r]?.[c]) return false;
+      }
+    }
+    return true;
+  }
+
+  // Brightness form of the image, for the 'picture' strategy when there is no plan
+  public toBrightness(): number[][] {
+    return this.need.map(row => row.map(cell => cell ? 1 : 0));
+  }
+
+  private *build(): Generator<void, void> {
+    // No tiling with the requested types: settle for the right shape in any pieces,
+    // and failing that (e.g. a cell count that isn't a multiple of 4) let pieces spill
+    // into as few empty cells as possible
+    const typed = yield* this.search(true, false);
+    this.plan = typed ?? (yield* this.search(false, false)) ?? (yield* this.search(false, true));
+    this.exact = typed !== null;
+    this.ready = true;
+  }
+
+  // Yields every SLICE_NODES nodes so work() can stop between them
+  private *search(matchTypes: boolean, allowSpill: boolean): Generator<void, PlannedPiece[] | null> {
+    const { rows, cols, need } = this;
+    const filled = Array.from({ length: rows }, () => Array(cols).fill(false));
+    const plan: PlannedPiece[] = [];
+    let budget = SEARCH_LIMIT;
+
+    const occupied = (r: number, c: number) => r >= rows || c < 0 || c >= cols || (r >= 0 && filled[r][c]);
+
+    // Returns the number of empty-by-design cells the piece would cover, or -1 if it can't go here
+    const fits = (o: Orientation, type: string, x: number, y: number): number => {
+      const { shape } = o;
+      let spill = 0;
+      for (let r = 0; r < shape.length; r++) {
+        for (let c = 0; c < shape[r].length; c++) {
+          if (!shape[r][c]) continue;
+          const gr = y + r;
+          const gc = x + c;
+          if (gr < 0 || gc < 0 || gc >= cols || gr >= rows || filled[gr][gc]) return -1;
+          const cell = need[gr][gc];
+          if (!cell) {
+            if (!allowSpill) return -1;
+            spill++;
+          }
+          if (matchTypes && cell !== TARGET_ANY && cell !== type) return -1;
+          // Nothing still to be built may end up sealed underneath this piece
+          const below = r + 1 < shape.length && shape[r + 1][c];
+          if (!below) {
+            for (let under = gr + 1; under < rows && !filled[under][gc]; under++) {
+              if (need[under][gc]) return -1;
+            }
+          }
+        }
+      }
+      // It has to come to rest exactly here, having got here unobstructed: spawned unrotated
+      // (a blocked spawn tops out), turned in place, shifted along the top row, then dropped
+      const collides = (s: number[][], xx: number, yy: number) =>
+        s.some((row, r) => row.some((v, c) => v && occupied(yy + r, xx + c)));
+      if (!collides(shape, x, y + 1)) return -1;
+      const startX = spawnX(type, cols);
+      if (collides(SHAPES[type].shape, startX, 0)) return -1;
+      // Every column along the top row from the spawn point to this one, both included
+      for (let xx = Math.min(startX, x); xx <= Math.max(startX, x); xx++) {
+        if (collides(shape, xx, 0)) return -1;
+      }
+      for (let yy = 1; yy < y; yy++) {
+        if (collides(shape, x, yy)) return -1;
+      }
+      return spill;
+    };
+
+    const mark = (o: Orientation, x: number, y: number, value: boolean) => {
+      o.shape.forEach((row, r) => row.forEach((v, c) => { if (v) filled[y + r][x + c] = value; }));
+    };
+
+    const solve = function* (): Generator<void, boolean> {
+      if (--budget < 0) return false;
+      if (budget % SLICE_NODES === 0) yield;
+      // Lowest, then left-most cell still to build
+      let target: [number, number] | null = null;
+      for (let r = rows - 1; r >= 0 && !target; r--) {
+        for (let c = 0; c < cols; c++) {
+          if (need[r][c] && !filled[r][c]) {
+            target = [r, c];
+            break;
+          }
+        }
+      }
+      if (!target) return true;
+
+      const [tr, tc] = target;
+      const wanted = need[tr][tc]!;
+      const types = matchTypes && wanted !== TARGET_ANY ? [wanted] : TYPE_ORDER;
+      const options: { type: string; o: Orientation; x: number; y: number; spill: number }[] = [];
+      for (const type of types) {
+        for (const o of ORIENTATIONS[type]) {
+          const x = tc - o.anchorCol;
+          const y = tr - o.anchorRow;
+          const spill = fits(o, type, x, y);
+          if (spill >= 0) options.push({ type, o, x, y, spill });
+        }
+      }
+      // Least spill first (stable, so exact searches keep TYPE_ORDER)
+      options.sort((a, b) => a.spill - b.spill);
+
+      for (const { type, o, x, y } of options) {
+        mark(o, x, y, true);
+        plan.push({ type, x, rotation: o.rotation, dropY: y });
+        if (yield* solve()) return true;
+        plan.pop();
+        mark(o, x, y, false);
+      }
+      return false;
+    };
+
+    return (yield* solve()) ? plan : null;
+  }
+}
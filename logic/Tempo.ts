@@ -0,0 +1,14 @@
+// Timing helpers shared by the renderer and anything that needs to predict it.
+// All durations are in seconds.
+
+// Time between AI turns. BPM is floored at 10 to avoid absurdly long waits.
+export const getTickInterval = (bpm: number): number => 60 / Math.max(bpm, 10);
+
+// Time between the AI's sub-steps (rotate, shift one column, fall one row)
+export const getStepInterval = (bpm: number): number => getTickInterval(bpm) * 0.15;
+
+// Full line-clear sequence (flash -> burst -> fall).
+// Two beats long, clamped so slow songs don't stall the board and fast ones stay readable.
+export const getLineClearDuration = (bpm: number): number => {
+  return Math.max(0.25, Math.min(1.5, getTickInterval(bpm) * 2));
+};
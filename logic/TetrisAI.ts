@@ -1,10 +1,19 @@
 
-import { GridMatrix, SHAPES } from '../types';
+import { AIStrategyName, AIWeights, GameAction, GridMatrix, SHAPES, TetrisEventHandler } from '../types';
+import { SeededRandom, createRandomSeed } from './Random';
+import { AI_STRATEGIES, Placement, getDefaultWeights } from './AIStrategies';
+import { TargetBuilder } from './TargetImage';
 
-interface Move {
-  rotation: number;
+export interface ActivePiece {
+  type: string;
+  shape: number[][];
   x: number;
-  score: number;
+  y: number;
+  colorOffset: number;
+  rotation: number; // Quarter turns clockwise from the spawn orientation (0-3)
+  // Rotation centre in the piece's own box, continuous coords (cell centres at +0.5).
+  // Follows the shape through rotatePiece() so renderers can turn around it.
+  pivot: { x: number; y: number };
 }
 
 export class TetrisGame {
@@ -14,33 +23,82 @@ export class TetrisGame {
   public minLinesToClear: number;
   public enableLineClear: boolean = true;
   
-  public currentPiece: { type: string; shape: number[][]; x: number; y: number; colorOffset: number } | null = null;
+  public currentPiece: ActivePiece | null = null;
   public gameOver: boolean = false;
+
+  // Run statistics (cleared on reset)
+  public piecesPlaced = 0;
+  public linesCleared = 0;
+  public combo = 0; // Consecutive locks that cleared at least one line
+
+  // When true, lockPiece() leaves full rows in place and waits for finishLineClear(),
+  // so the renderer can animate them. Headless callers keep the instant behaviour.
+  public deferLineClears = false;
+  public pendingClear: number[] | null = null; // Logical row indices awaiting removal
+  // When false, lockPiece()/finishLineClear() leave currentPiece null and the caller
+  // decides when to spawnPiece() (beat-quantized spawns). reset() always spawns.
+  public autoSpawn = true;
+
+  // Optional event sink (wired up by SceneManager)
+  public onEvent?: TetrisEventHandler;
+  // Low-level action log, used for recording
+  public onAction?: (action: GameAction) => void;
+  // Overrides the bag when set (replays feed the recorded sequence through this)
+  public pieceSource?: () => string | undefined;
+  
+  // AI tuning (see AIStrategies)
+  public strategy: AIStrategyName = 'greedy';
+  public aiWeights: Partial<AIWeights> = {};
+  public mistakeRate = 0.1;
+  public picture: number[][] | null = null; // Target bitmap for the 'picture' strategy
+  // Target-image mode: the builder's plan picks both the pieces and where they go.
+  // Without a plan (untileable image) the 'picture' strategy aims at it instead.
+  public target: TargetBuilder | null = null;
+
+  // Effective seed of the piece sequence (a random one if the config asked for 0)
+  public seed: number;
   
   private bag: string[] = [];
+  private rng: SeededRandom;
+  private aiRng: SeededRandom; // Separate stream, so AI mistakes never shift the piece sequence
 
-  constructor(rows: number, cols: number, minLinesToClear: number = 1) {
+  constructor(rows: number, cols: number, minLinesToClear: number = 1, seed: number = 0) {
     this.rows = rows;
     this.cols = cols;
     this.minLinesToClear = minLinesToClear;
+    this.seed = seed || createRandomSeed();
+    this.rng = new SeededRandom(this.seed);
+    this.aiRng = new SeededRandom(this.seed ^ 0x2545f491);
     this.grid = Array.from({ length: this.rows }, () => Array(this.cols).fill(null));
     this.fillBag();
     this.spawnPiece();
   }
 
+  // 7-bag randomizer: every piece once per bag, shuffled by the seeded generator
   private fillBag() {
-    const pieces = Object.keys(SHAPES);
-    this.bag = [...pieces, ...pieces].sort(() => Math.random() - 0.5);
+    this.bag = this.rng.shuffle(Object.keys(SHAPES));
   }
 
   private getNextPieceType(): string {
+    const forced = this.pieceSource?.() ?? this.target?.nextType(this.piecesPlaced);
+    if (forced && SHAPES[forced]) return forced;
     if (this.bag.length === 0) this.fillBag();
     return this.bag.pop()!;
   }
 
+  // Type of the piece the bag will deal next (null while pieceSource is in charge)
+  public peekNextPiece(): string | null {
+    if (this.pieceSource) return null;
+    const planned = this.target?.nextType(this.piecesPlaced + 1);
+    if (planned) return planned;
+    if (this.bag.length === 0) this.fillBag(); // Same draw order as filling it on demand
+    return this.bag[this.bag.length - 1];
+  }
+
   public spawnPiece() {
     const type = this.getNextPieceType();
     const def = SHAPES[type];
+    this.onAction?.({ type: 'spawn', piece: type });
     
     // Center the piece
     const startX = Math.floor((this.cols - def.shape[0].length) / 2);
@@ -49,6 +107,13 @@ export class TetrisGame {
     // Check collision BEFORE creating the piece to detect immediate Game Over
     if (this.checkCollision(def.shape, startX, startY)) {
       this.gameOver = true;
+      this.currentPiece = null;
+      this.emit(this.enableLineClear ? 'topOut' : 'boardFull', {
+        pieceType: type,
+        fillRatio: this.getFillRatio(),
+        piecesPlaced: this.piecesPlaced,
+        linesCleared: this.linesCleared
+      });
       return; // Do not actually spawn if blocked
     }
 
@@ -57,8 +122,29 @@ export class TetrisGame {
       shape: def.shape,
       x: startX,
       y: startY,
-      colorOffset: def.colorOffset
+      colorOffset: def.colorOffset,
+      rotation: 0,
+      // SHAPES pivots are given in cell-index space
+      pivot: { x: def.pivot.x + 0.5, y: def.pivot.y + 0.5 }
     };
+
+    this.emit('pieceSpawn', { pieceType: type, x: startX, y: startY, fillRatio: this.getFillRatio() });
+  }
+
+  // Change the line-clear rules mid-run. Logged as an action, so recordings replay them.
+  public setRules(enableLineClear: boolean, minLinesToClear: number) {
+    if (enableLineClear === this.enableLineClear && minLinesToClear === this.minLinesToClear) return;
+    this.enableLineClear = enableLineClear;
+    this.minLinesToClear = minLinesToClear;
+    this.onAction?.({ type: 'rules', enableLineClear, minLinesToClear });
+  }
+
+  // Restart the piece sequence from a new seed (0 = pick a random one) and clear the board
+  public reseed(seed: number) {
+    this.seed = seed || createRandomSeed();
+    this.rng = new SeededRandom(this.seed);
+    this.aiRng = new SeededRandom(this.seed ^ 0x2545f491);
+    this.reset();
   }
 
   public reset(rows?: number, cols?: number, minLinesToClear?: number) {
@@ -68,6 +154,12 @@ export class TetrisGame {
     
     this.grid = Array.from({ length: this.rows }, () => Array(this.cols).fill(null));
     this.gameOver = false;
+    this.currentPiece = null;
+    this.pendingClear = null;
+    this.piecesPlaced = 0;
+    this.linesCleared = 0;
+    this.combo = 0;
+    this.onAction?.({ type: 'reset', rows: this.rows, cols: this.cols });
     this.fillBag();
     this.spawnPiece();
   }
@@ -86,6 +178,36 @@ export class TetrisGame {
     return newShape;
   }
 
+  // Rotate the active piece clockwise in place, keeping its top-left anchor
+  public rotatePiece() {
+    if (!this.currentPiece) return;
+    const piece = this.currentPiece;
+    const height = piece.shape.length;
+    piece.shape = this.rotateShape(piece.shape);
+    // Same mapping as rotateShape: (x, y) -> (height - y, x)
+    piece.pivot = { x: height - piece.pivot.y, y: piece.pivot.x };
+    piece.rotation = (piece.rotation + 1) % 4;
+    this.onAction?.({ type: 'rotate' });
+  }
+
+  // Move the active piece sideways. Returns false (and does nothing) if blocked.
+  public shiftPiece(dx: number): boolean {
+    const piece = this.currentPiece;
+    if (!piece || this.checkCollision(piece.shape, piece.x + dx, piece.y)) return false;
+    piece.x += dx;
+    this.onAction?.({ type: 'shift', dx });
+    return true;
+  }
+
+  // Move the active piece down one row. Returns false if it has landed.
+  public dropPiece(): boolean {
+    const piece = this.currentPiece;
+    if (!piece || this.checkCollision(piece.shape, piece.x, piece.y + 1)) return false;
+    piece.y++;
+    this.onAction?.({ type: 'drop' });
+    return true;
+  }
+
   public checkCollision(shape: number[][], x: number, y: number): boolean {
     for (let r = 0; r < shape.length; r++) {
       for (let c = 0; c < shape[r].length; c++) {
@@ -105,6 +227,7 @@ export class TetrisGame {
   public lockPiece() {
     if (!this.currentPiece) return;
     const { shape, x, y, type } = this.currentPiece;
+    this.onAction?.({ type: 'lock' });
     
     // Write to grid
     for (let r = 0; r < shape.length; r++) {
@@ -117,128 +240,117 @@ export class TetrisGame {
       }
     }
 
-    if (this.enableLineClear) {
-      this.processLineClears();
-    }
-    
-    this.spawnPiece();
-  }
+    this.piecesPlaced++;
+    this.emit('pieceLock', { pieceType: type, x, y, fillRatio: this.getFillRatio() });
 
-  private processLineClears() {
-     // Identify full lines
-    const fullRowIndices: number[] = [];
-    for (let r = 0; r < this.rows; r++) {
-      if (this.grid[r].every(cell => cell !== null)) {
-        fullRowIndices.push(r);
-      }
+    const rows = this.enableLineClear ? this.findClearableRows() : [];
+    if (rows.length === 0) {
+      this.combo = 0;
+      this.spawnNext();
+      return;
     }
 
-    // Only clear if we meet the threshold
-    if (fullRowIndices.length >= this.minLinesToClear) {
-      // Create new grid excluding full rows
-      const newGrid = this.grid.filter((_, idx) => !fullRowIndices.includes(idx));
-      // Pad top with nulls
-      const linesToAdd = this.rows - newGrid.length;
-      for (let i = 0; i < linesToAdd; i++) {
-        newGrid.unshift(Array(this.cols).fill(null));
-      }
-      this.grid = newGrid;
+    this.combo++;
+    this.linesCleared += rows.length;
+    this.emit('lineClear', {
+      rows,
+      count: rows.length,
+      combo: this.combo,
+      pieceType: type,
+      // Report the fill the board will have once the rows are gone
+      fillRatio: this.getFillRatio() - (rows.length * this.cols) / (this.rows * this.cols)
+    });
+
+    if (this.deferLineClears) {
+      // Hold the game until the renderer has played the clear sequence
+      this.pendingClear = rows;
+      this.currentPiece = null;
+      return;
     }
+
+    this.removeRows(rows);
+    this.spawnNext();
   }
 
-  // --- AI ---
+  // Completes a clear started by lockPiece() while deferLineClears is on
+  public finishLineClear() {
+    if (!this.pendingClear) return;
+    this.removeRows(this.pendingClear);
+    this.pendingClear = null;
+    this.spawnNext();
+  }
 
-  public getBestMove(): { x: number; rotation: number, dropY: number } {
-    if (!this.currentPiece) return { x: 0, rotation: 0, dropY: 0 };
-
-    let bestScore = -Infinity;
-    let bestMove = { x: this.currentPiece.x, rotation: 0, dropY: 0 };
-    let shape = this.currentPiece.shape;
-
-    // Try all 4 rotations
-    for (let r = 0; r < 4; r++) {
-      // Try all X positions
-      for (let x = -2; x < this.cols + 2; x++) {
-        // Find drop Y
-        if (!this.checkCollision(shape, x, 0)) {
-           let dy = 0;
-           // Find lowest valid point
-           while (!this.checkCollision(shape, x, dy + 1)) {
-             dy++;
-           }
-           const y = dy;
-           
-           // Evaluate grid state if we placed it here
-           const score = this.evaluateGrid(shape, x, y);
-           if (score > bestScore) {
-             bestScore = score;
-             bestMove = { x, rotation: r, dropY: y };
-           }
-        }
+  private spawnNext() {
+    if (this.autoSpawn) this.spawnPiece();
+    else this.currentPiece = null;
+  }
+
+  // Share of occupied cells, 0 to 1
+  public getFillRatio(): number {
+    let filled = 0;
+    for (const row of this.grid) {
+      for (const cell of row) {
+        if (cell !== null) filled++;
       }
-      shape = this.rotateShape(shape);
     }
-    return bestMove;
+    return filled / (this.rows * this.cols);
   }
 
-  private evaluateGrid(shape: number[][], x: number, y: number): number {
-    // Clone grid simply
-    // Note: We only need to check the grid below the placement roughly
-    const testGrid = this.grid.map(row => [...row]);
-    
-    // Place piece in test grid
-    for (let r = 0; r < shape.length; r++) {
-      for (let c = 0; c < shape[r].length; c++) {
-        if (shape[r][c]) {
-           if(y+r < this.rows) testGrid[y + r][x + c] = "TEMP";
-        }
+  private emit: TetrisEventHandler = (type, payload) => {
+    if (this.onEvent) this.onEvent(type, payload);
+  };
+
+  // Full rows, or an empty list if there are fewer than minLinesToClear
+  private findClearableRows(): number[] {
+    const fullRowIndices: number[] = [];
+    for (let r = 0; r < this.rows; r++) {
+      if (this.grid[r].every(cell => cell !== null)) {
+        fullRowIndices.push(r);
       }
     }
+    return fullRowIndices.length >= this.minLinesToClear ? fullRowIndices : [];
+  }
 
-    // Heuristics
-    let aggregateHeight = 0;
-    let completeLines = 0;
-    let holes = 0;
-    let bumpiness = 0;
-
-    const columnHeights = new Array(this.cols).fill(0);
-
-    // Calculate Column Heights & Holes
-    for (let c = 0; c < this.cols; c++) {
-      let foundTop = false;
-      for (let r = 0; r < this.rows; r++) {
-        if (testGrid[r][c] !== null) {
-          if (!foundTop) {
-            columnHeights[c] = this.rows - r;
-            foundTop = true;
-          }
-        } else if (foundTop) {
-          holes++; // Empty space below a block
-        }
-      }
+  private removeRows(rowIndices: number[]) {
+    this.onAction?.({ type: 'clear', rows: rowIndices });
+    // Create new grid excluding full rows
+    const newGrid = this.grid.filter((_, idx) => !rowIndices.includes(idx));
+    // Pad top with nulls
+    const linesToAdd = this.rows - newGrid.length;
+    for (let i = 0; i < linesToAdd; i++) {
+      newGrid.unshift(Array(this.cols).fill(null));
     }
+    this.grid = newGrid;
+  }
 
-    aggregateHeight = columnHeights.reduce((a, b) => a + b, 0);
+  // --- AI ---
 
-    for (let c = 0; c < this.cols - 1; c++) {
-      bumpiness += Math.abs(columnHeights[c] - columnHeights[c + 1]);
-    }
+  public getBestMove(): Placement {
+    const piece = this.currentPiece;
+    if (!piece) return { x: 0, rotation: 0, dropY: 0 };
 
-    // Count lines
-    for (let r = 0; r < this.rows; r++) {
-      if (testGrid[r].every(val => val !== null)) completeLines++;
+    if (this.target) {
+      const planned = this.target.placementFor(this.piecesPlaced);
+      if (planned) return planned;
     }
 
-    // Weights
-    // If not clearing lines, we still want to pack tightly (low bumpiness, low holes), 
-    // but aggregate height is less bad because we WANT to stack. 
-    // However, keeping height low typically results in better packing.
-    
-    const wHeight = this.enableLineClear ? -0.51 : -0.2; 
-    const wLines = this.enableLineClear ? 0.76 : 1.5; // Reward creating "full lines" even if they don't clear, for neatness
-    const wHoles = -0.6; // Holes are always bad for visual neatness
-    const wBump = -0.3;  // Smooth surface looks better
-    
-    return (wHeight * aggregateHeight) + (wLines * completeLines) + (wHoles * holes) + (wBump * bumpiness);
+    const strategyName = this.target ? 'picture' : this.strategy;
+    const strategy = AI_STRATEGIES[strategyName] ?? AI_STRATEGIES.greedy;
+    const next = this.peekNextPiece();
+    const placement = strategy({
+      grid: this.grid,
+      shape: piece.shape,
+      nextShape: next ? SHAPES[next].shape : null,
+      enableLineClear: this.enableLineClear,
+      minLinesToClear: this.minLinesToClear,
+      weights: this.target
+        ? getDefaultWeights('picture', false)
+        : { ...getDefaultWeights(this.strategy, this.enableLineClear), ...this.aiWeights },
+      mistakeRate: this.mistakeRate,
+      rng: this.aiRng,
+      picture: this.target ? this.target.toBrightness() : this.picture
+    });
+    // Nowhere to go: leave it where it is and let it lock
+    return placement ?? { x: piece.x, rotation: 0, dropY: 0 };
   }
 }
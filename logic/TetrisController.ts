@@ -0,0 +1,461 @@
+import { SceneManager } from './SceneManager';
+import { GameConfig, AppMode, TetrisEventType, TetrisEventCallback, TetrisEventHandler, TetrisGlobalAPI, MusicSyncParams, GameRecording, ReplayOptions, AudioInput, AudioReactiveOptions, TargetImageInput, StyleFunction, CustomAnimation, CustomFrame, FrameLoaderOptions, GifSource, SpriteSheetOptions, SpriteSheetSource, TextOptions, ConfigTransition, CueAction, CueList, PresetLoadOptions, CameraPath, PresetFile, FactoryPresetInfo } from '../types';
+import { PresetManager, PresetManagerInstance, createPreset, downloadPreset, getShareUrl, resolvePreset, serializePreset } from './PresetManager';
+import { DEFAULT_CONFIG } from './ConfigSchema';
+import { FACTORY_PRESETS, getPresetThumbnail } from './FactoryPresets';
+import { downloadRecording, parseRecording } from './GameRecorder';
+import { FillModel, estimateRemainingPieces, loadFillModel, peekFillModel, solveBpm } from './FillTimeModel';
+import { AudioAnalyzer } from './AudioAnalyzer';
+import { normalizeTargetImage } from './TargetImage';
+import { getStyleNames, registerStyle } from './FlowShader';
+import { loadGifAnimation, loadSpriteSheetAnimation } from './FrameLoaders';
+import { buildTextAnimation } from './TextRenderer';
+import { Timeline, parseCueList } from './Timeline';
+import { buildCameraPath, getCameraPathNames } from './CameraRig';
+
+// One board and its control API, with no UI framework: it owns the config and the
+// SceneManager. The React App and the framework-free entry (core.ts) both sit on top of it.
+
+// --- CONFIGURATION RANGES ---
+// Modify these values to constrain the music sync logic
+const RANGES = {
+  FLOW_SPEED: [1, 4],     // Controlled by 'density'
+  TEMPERATURE: [0, 1],    // Controlled by 'brightness'
+  BPM: [60, 600],         // Controlled by 'expectedDuration' or detected tempo
+  BLOOM: [0.4, 2.5]       // Controlled by live audio energy
+};
+
+// Live audio: how often analysis is pushed into the config (ms), and how much
+// each push moves toward the new reading (0-1, lower = smoother)
+const AUDIO_UPDATE_INTERVAL = 100;
+const AUDIO_SMOOTHING = 0.35;
+
+// Each event's callbacks, typed by its payload
+type EventListeners = { [K in TetrisEventType]?: TetrisEventCallback<K>[] };
+
+export interface TetrisControllerOptions {
+  config?: Partial<GameConfig>;      // Overrides on top of DEFAULT_CONFIG
+  presets?: PresetManagerInstance;   // Default: localStorage
+  mode?: AppMode;                    // Default: 'live'
+}
+
+export class TetrisController {
+  public readonly api: TetrisGlobalAPI;
+  public readonly presets: PresetManagerInstance;
+
+  // For a UI layer on top: called after the change has reached the scene
+  public onConfigChange: ((config: GameConfig) => void) | null = null;
+  public onModeChange: ((mode: AppMode) => void) | null = null;
+  public onStylesChange: ((styles: string[]) => void) | null = null;
+
+  private config: GameConfig;
+  private mode: AppMode;
+  private sceneManager: SceneManager;
+  private audioAnalyzer: AudioAnalyzer | null = null;
+  private timeline: Timeline | null = null;
+  // Presets the loaded timeline's cues use, fetched up front so cues don't wait on storage
+  private timelinePresets = new Map<string, PresetFile | null>();
+
+  // Event Listeners Storage: { 'reset': [cb1, cb2], 'lineClear': [] }
+  private listeners: EventListeners = {};
+  private musicSyncRequest = 0; // Bumped per syncMusic call, so a slow calibration can't apply a stale tempo
+
+  constructor(container: HTMLElement, options: TetrisControllerOptions = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...options.config };
+    this.mode = options.mode ?? 'live';
+    this.presets = options.presets ?? PresetManager;
+
+    // Initialize 3D Scene, passing the event handler
+    this.sceneManager = new SceneManager(container, this.config, this.emit);
+    this.api = this.createApi();
+
+    // Start Render Loop
+    this.sceneManager.render();
+  }
+
+  public getConfig(): GameConfig {
+    return this.config;
+  }
+
+  public getMode(): AppMode {
+    return this.mode;
+  }
+
+  // Replace the config, gliding to it if a transition is given (see SceneManager.updateConfig)
+  public setConfig(update: (prev: GameConfig) => GameConfig, transition?: ConfigTransition) {
+    this.config = update(this.config);
+    this.sceneManager.updateConfig(this.config, transition);
+    this.onConfigChange?.(this.config);
+  }
+
+  public dispose() {
+    this.audioAnalyzer?.dispose();
+    this.audioAnalyzer = null;
+    this.timeline = null;
+    this.listeners = {};
+    this.musicSyncRequest++; // Drops a calibration still running
+    this.sceneManager.dispose();
+  }
+
+  // Internal handler called by SceneManager
+  private emit: TetrisEventHandler = (type, payload) => {
+    const listeners: EventListeners[typeof type] = this.listeners[type];
+    if (listeners) {
+      // A copy: callbacks may call off() while we're going through them
+      [...listeners].forEach(cb => cb(payload));
+    }
+  };
+
+  // --- TIMELINE CUES ---
+  // A preset and/or config on top of it, optionally gliding into place
+  private applyLook = (preset: string | undefined, partial: Partial<GameConfig> | undefined, transition?: ConfigTransition) => {
+    const apply = (base: PresetFile | null) => {
+      if (preset && !base) console.warn(`Timeline: no preset named '${preset}'`);
+      if (!base && !partial) return;
+      this.setConfig(prev => ({ ...(base ? resolvePreset(base, prev) : prev), ...partial }), transition);
+    };
+    const cached = this.timelinePresets;
+    if (!preset || cached.has(preset)) {
+      apply(preset ? cached.get(preset)! : null);
+    } else {
+      // Not prefetched (e.g. a camera action): applied late, once storage answers
+      this.presets.load(preset).then(apply);
+    }
+  };
+
+  private runAction = (action: CueAction, transition?: ConfigTransition) => {
+    switch (action.type) {
+      case 'reset':
+        this.sceneManager.restart();
+        break;
+      case 'showText':
+        // Through the API so the text is sized to the board as it is now
+        this.api.showText(action.text, action.options);
+        break;
+      case 'hideText':
+        this.sceneManager.hideText();
+        break;
+      case 'camera': {
+        if (action.path) {
+          this.api.setCameraPath(action.path);
+          break;
+        }
+        const camera: Partial<GameConfig> = { cameraMode: action.mode ?? 'manual' };
+        if (action.x !== undefined) camera.cameraX = action.x;
+        if (action.y !== undefined) camera.cameraY = action.y;
+        if (action.z !== undefined) camera.cameraZ = action.z;
+        if (action.rotationSpeed !== undefined) camera.rotationSpeed = action.rotationSpeed;
+        this.applyLook(undefined, camera, transition);
+        break;
+      }
+      default:
+        console.warn(`Timeline: unknown action '${(action as { type: string }).type}'`);
+    }
+  };
+
+  private createApi(): TetrisGlobalAPI {
+    return {
+      set: (key: keyof GameConfig, value: any, transition?: ConfigTransition) => {
+        this.setConfig(prev => ({ ...prev, [key]: value }), transition);
+      },
+      setMode: (m: AppMode) => {
+        this.mode = m;
+        this.onModeChange?.(m);
+      },
+      loadPreset: async (name: string, options: PresetLoadOptions = {}) => {
+        const p = await this.presets.load(name);
+        if (!p) return;
+        // No crossfade is a zero-length transition: it also cuts short any glide in progress
+        const { crossfade = 0, easing, switchAt } = options;
+        this.setConfig(prev => resolvePreset(p, prev), { duration: crossfade, easing, switchAt });
+      },
+      getPresets: async () => {
+        const saved = await this.presets.list();
+        // A saved preset with a factory name shadows it: listed once
+        return [...new Set([...FACTORY_PRESETS.map(p => p.name), ...saved])];
+      },
+      getFactoryPresets: (): FactoryPresetInfo[] => FACTORY_PRESETS.map(({ name, description, config }) => ({
+        name,
+        description,
+        thumbnail: getPresetThumbnail(config)
+      })),
+      clonePreset: (name: string, newName?: string) => this.presets.clone(name, newName),
+      savePreset: async (name: string, fields?: (keyof GameConfig)[]) => {
+        const current = this.config;
+        if (!fields) {
+          await this.presets.save(name, current);
+          return;
+        }
+        const partial = Object.fromEntries(fields.filter(key => key in current).map(key => [key, current[key]]));
+        await this.presets.save(name, partial, { partial: true });
+      },
+      importPreset: (preset: PresetFile | string, name?: string) => this.presets.import(preset, name),
+      exportPreset: async (name: string) => {
+        const preset = await this.presets.load(name);
+        return preset ? serializePreset({ ...preset, name }) : null;
+      },
+      downloadPreset: async (name: string, filename?: string) => {
+        const preset = await this.presets.load(name);
+        if (preset) downloadPreset({ ...preset, name }, filename ?? `${name}.json`);
+      },
+      getPresetShareUrl: async (name?: string) => {
+        const preset = name === undefined ? createPreset(this.config) : await this.presets.load(name);
+        return preset ? getShareUrl(preset) : null;
+      },
+      bulkUpdate: (updates: Partial<GameConfig>, transition?: ConfigTransition) => {
+        this.setConfig(prev => ({ ...prev, ...updates }), transition);
+      },
+      toggle: (key: keyof GameConfig) => {
+        this.setConfig(prev => ({ ...prev, [key]: !prev[key as keyof GameConfig] }));
+      },
+      
+      // --- MUSIC SYNC INTERFACE ---
+      syncMusic: (params: MusicSyncParams) => {
+        const { density, brightness, expectedDuration } = params;
+
+        // 1. Map Density -> Flow Speed
+        // Clamp density 0-1
+        const d = Math.max(0, Math.min(1, density));
+        const newFlowSpeed = RANGES.FLOW_SPEED[0] + d * (RANGES.FLOW_SPEED[1] - RANGES.FLOW_SPEED[0]);
+
+        // 2. Map Brightness -> Temperature
+        // Clamp brightness 0-1
+        const b = Math.max(0, Math.min(1, brightness));
+        const newTemp = RANGES.TEMPERATURE[0] + b * (RANGES.TEMPERATURE[1] - RANGES.TEMPERATURE[0]);
+
+        // 3. Map Duration -> BPM
+        // Calibrated against simulated AI runs for the current board size and rules.
+        // If duration is 0 or missing, keep the current BPM. The first sync on a board
+        // keeps it too while the calibration runs, and sets the tempo once it's done.
+        const { gridRows, gridCols, enableLineClear, minLinesToClear, aiStrategy, aiWeights, aiMistakeRate } = this.config;
+        const ai = { strategy: aiStrategy, aiWeights, mistakeRate: aiMistakeRate };
+        const bpmRange = RANGES.BPM as [number, number];
+        const solve = (model: FillModel) => {
+          const pieces = estimateRemainingPieces(model, gridRows, gridCols, 0, params.targetFill ?? model.topOutFill);
+          return solveBpm(model, pieces, expectedDuration, bpmRange);
+        };
+        const request = ++this.musicSyncRequest;
+        let newBpm = this.config.bpm;
+        if (expectedDuration && expectedDuration > 0) {
+          if (params.fitToDuration) {
+            // Fresh board, tempo keeps adapting until the song ends
+            newBpm = this.sceneManager.startDurationFit(expectedDuration, { targetFill: params.targetFill, bpmRange });
+          } else {
+            const model = peekFillModel(gridRows, gridCols, enableLineClear, minLinesToClear, ai);
+            if (model) {
+              newBpm = solve(model);
+            } else {
+              loadFillModel(gridRows, gridCols, enableLineClear, minLinesToClear, ai).then(model => {
+                // A later sync (or a disposed board) has the last word
+                if (request !== this.musicSyncRequest) return;
+                this.setConfig(prev => ({ ...prev, bpm: Math.floor(solve(model)) }));
+              });
+            }
+          }
+        }
+        if (!params.fitToDuration) {
+          this.sceneManager.stopDurationFit();
+        }
+
+        this.setConfig(prev => ({
+          ...prev,
+          flowSpeed: parseFloat(newFlowSpeed.toFixed(2)),
+          temperature: parseFloat(newTemp.toFixed(2)),
+          bpm: Math.floor(newBpm)
+        }));
+      },
+
+      // --- LIVE AUDIO ---
+      connectAudio: (input: AudioInput, options: AudioReactiveOptions = {}) => {
+        this.audioAnalyzer?.dispose();
+        const analyzer = new AudioAnalyzer(input);
+        this.audioAnalyzer = analyzer;
+
+        const drive = {
+          flowSpeed: options.flowSpeed ?? true,
+          temperature: options.temperature ?? true,
+          bpm: options.bpm ?? true,
+          bloomStrength: options.bloomStrength ?? true
+        };
+        this.sceneManager.setBeatLock(options.beatLockedDrops ?? true);
+
+        // Smoothed readings, pushed to the config at a throttled rate
+        let energy = 0;
+        let brightness = 0.5;
+        let kick = 0;
+        let lastPush = 0;
+
+        analyzer.onBeat = () => this.sceneManager.notifyBeat();
+        analyzer.onFeatures = (features) => {
+          energy += (features.energy - energy) * AUDIO_SMOOTHING;
+          brightness += (features.brightness - brightness) * AUDIO_SMOOTHING;
+          kick = features.onset ? 1 : kick * 0.85;
+          this.sceneManager.setAudioLevel(energy);
+
+          const now = performance.now();
+          if (now - lastPush < AUDIO_UPDATE_INTERVAL) return;
+          lastPush = now;
+
+          const updates: Partial<GameConfig> = {};
+          if (drive.flowSpeed) {
+            updates.flowSpeed = parseFloat((RANGES.FLOW_SPEED[0] + energy * (RANGES.FLOW_SPEED[1] - RANGES.FLOW_SPEED[0])).toFixed(2));
+          }
+          if (drive.temperature) {
+            updates.temperature = parseFloat((RANGES.TEMPERATURE[0] + brightness * (RANGES.TEMPERATURE[1] - RANGES.TEMPERATURE[0])).toFixed(2));
+          }
+          if (drive.bloomStrength) {
+            const level = Math.min(1, energy * 0.7 + kick * 0.3);
+            updates.bloomStrength = parseFloat((RANGES.BLOOM[0] + level * (RANGES.BLOOM[1] - RANGES.BLOOM[0])).toFixed(2));
+          }
+          if (drive.bpm && features.tempo) {
+            updates.bpm = Math.round(Math.max(RANGES.BPM[0], Math.min(RANGES.BPM[1], features.tempo)));
+          }
+          this.setConfig(prev => ({ ...prev, ...updates }));
+        };
+        analyzer.start();
+      },
+      disconnectAudio: () => {
+        this.audioAnalyzer?.dispose();
+        this.audioAnalyzer = null;
+        this.sceneManager.setBeatLock(false);
+        this.sceneManager.setAudioLevel(0);
+      },
+
+      // --- BEAT GRID ---
+      tap: () => {
+        const tapped = this.sceneManager.tap();
+        if (tapped === null) return null;
+        const bpm = Math.round(Math.max(RANGES.BPM[0], Math.min(RANGES.BPM[1], tapped)));
+        this.setConfig(prev => ({ ...prev, bpm }));
+        return bpm;
+      },
+      setBeatPhase: (phase: number, beatInBar?: number) => {
+        this.sceneManager.setBeatPhase(phase, beatInBar);
+      },
+      setTargetImage: (image: TargetImageInput | null) => {
+        // Colors are matched against the palette as it looks right now
+        this.setConfig(prev => ({
+          ...prev,
+          targetImage: image ? normalizeTargetImage(image, prev.temperature) : []
+        }));
+      },
+      getBeatPosition: () => {
+        return this.sceneManager.getBeatPosition();
+      },
+
+      // --- VISUAL STYLES ---
+      registerStyle: (name: string, style: StyleFunction | string) => {
+        registerStyle(name, style);
+        this.onStylesChange?.(getStyleNames());
+      },
+      getStyles: () => getStyleNames(),
+
+      // --- CUSTOM GRID ANIMATION ---
+      loadCustomAnimation: (animation: CustomAnimation | null) => {
+        this.sceneManager.loadCustomAnimation(animation);
+        if (animation) this.setConfig(prev => ({ ...prev, visualStyle: 'custom' }));
+      },
+      pushCustomFrame: (grid: number[][], timing: Pick<CustomFrame, 'duration' | 'beats'> = {}) => {
+        this.sceneManager.pushCustomFrame({ grid, ...timing });
+        this.setConfig(prev => prev.visualStyle === 'custom' ? prev : { ...prev, visualStyle: 'custom' });
+      },
+      loadCustomGif: async (source: GifSource, options: FrameLoaderOptions = {}) => {
+        const animation = await loadGifAnimation(source, { ...options, rows: options.rows ?? this.config.gridRows, cols: options.cols ?? this.config.gridCols });
+        this.api.loadCustomAnimation(animation);
+        return animation;
+      },
+      loadCustomSpriteSheet: async (source: SpriteSheetSource, options: SpriteSheetOptions) => {
+        const animation = await loadSpriteSheetAnimation(source, { ...options, rows: options.rows ?? this.config.gridRows, cols: options.cols ?? this.config.gridCols });
+        this.api.loadCustomAnimation(animation);
+        return animation;
+      },
+
+      // --- TEXT ---
+      showText: (text: string, options: TextOptions = {}) => {
+        this.sceneManager.showText(buildTextAnimation(text, options, this.config.gridRows, this.config.gridCols));
+      },
+      hideText: () => {
+        this.sceneManager.hideText();
+      },
+
+      // --- RECORDING / REPLAY ---
+      startRecording: () => {
+        this.sceneManager.startRecording();
+      },
+      stopRecording: () => {
+        return this.sceneManager.stopRecording();
+      },
+      downloadRecording: (recording: GameRecording, filename?: string) => {
+        downloadRecording(recording, filename);
+      },
+      playRecording: (input: GameRecording | string, options?: ReplayOptions) => {
+        const recording = parseRecording(input);
+        // Keep our state in step with the board size the replay needs
+        const { gridRows, gridCols, minLinesToClear, enableLineClear } = recording.config;
+        this.setConfig(prev => ({ ...prev, gridRows, gridCols, minLinesToClear, enableLineClear }));
+        this.sceneManager.playRecording(recording, options);
+      },
+      setReplaySpeed: (speed: number) => {
+        this.sceneManager.setReplaySpeed(speed);
+      },
+      seekReplay: (time: number) => {
+        this.sceneManager.seekReplay(time);
+      },
+      stopReplay: () => {
+        this.sceneManager.stopReplay();
+      },
+      getReplayState: () => this.sceneManager.getReplayState(),
+
+      // --- TIMELINE ---
+      loadTimeline: async (input: CueList | string, options: { autoplay?: boolean } = {}) => {
+        const list = parseCueList(input);
+        const names = [...new Set(list.cues.map(cue => cue.preset).filter((name): name is string => !!name))];
+        const presets = await Promise.all(names.map(name => this.presets.load(name)));
+        this.timelinePresets = new Map(names.map((name, i) => [name, presets[i]]));
+        const timeline = new Timeline(list, {
+          applyLook: this.applyLook,
+          runAction: this.runAction,
+          onCue: (cue, index) => this.emit('cue', { index, label: cue.label, time: timeline.time, beat: timeline.beat })
+        });
+        this.timeline = timeline;
+        this.sceneManager.setTimeline(timeline);
+        if (options.autoplay) timeline.play();
+      },
+      playTimeline: () => {
+        this.timeline?.play();
+      },
+      pauseTimeline: () => {
+        this.timeline?.pause();
+      },
+      seekTimeline: (position: number, unit?: 'seconds' | 'beats') => {
+        this.timeline?.seek(position, unit);
+      },
+      stopTimeline: () => {
+        this.timeline = null;
+        this.sceneManager.setTimeline(null);
+      },
+      getTimelineState: () => this.timeline?.getState() ?? null,
+
+      // --- CAMERA ---
+      setCameraPath: (path: CameraPath | string) => {
+        const resolved = typeof path === 'string' ? buildCameraPath(path, this.config.gridRows, this.config.gridCols) : path;
+        if (!resolved) throw new Error(`Unknown camera path: ${path}`);
+        this.setConfig(prev => ({ ...prev, cameraMode: 'path', cameraPath: resolved }));
+      },
+      getCameraPaths: () => getCameraPathNames(),
+
+      on: <K extends TetrisEventType>(event: K, callback: TetrisEventCallback<K>) => {
+        const listeners: EventListeners[K] = this.listeners[event] ?? [];
+        listeners.push(callback);
+        this.listeners[event] = listeners;
+      },
+      off: <K extends TetrisEventType>(event: K, callback: TetrisEventCallback<K>) => {
+        const listeners: EventListeners[K] = this.listeners[event];
+        if (!listeners) return;
+        for (let i = listeners.length - 1; i >= 0; i--) {
+          if (listeners[i] === callback) listeners.splice(i, 1);
+        }
+      }
+    };
+  }
+}
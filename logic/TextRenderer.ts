@@ -0,0 +1,232 @@
+import { TextOptions } from '../types';
+
+// Built-in bitmap font for showText: strings become 'custom' brightness frames.
+// Glyphs are 7 rows tall and proportional (each only as wide as it needs), so short
+// words like "LIVE" fit a 20-column board. Lowercase is drawn as uppercase.
+
+const GLYPH_HEIGHT = 7;
+const SPACE_WIDTH = 3;
+const LETTER_GAP = 1;
+const LINE_GAP = 1;
+const DEFAULT_SPEED = 10; // Cells per second
+const SCROLL_MODES = ['auto', 'none', 'left', 'right', 'up', 'down'];
+
+const FONT: Record<string, string[]> = {
+  A: ['01110', '10001', '10001', '11111', '10001', '10001', '10001'],
+  B: ['11110', '10001', '10001', '11110', '10001', '10001', '11110'],
+  C: ['01110', '10001', '10000', '10000', '10000', '10001', '01110'],
+  D: ['11110', '10001', '10001', '10001', '10001', '10001', '11110'],
+  E: ['1111', '1000', '1000', '1110', '1000', '1000', '1111'],
+  F: ['1111', '1000', '1000', '1110', '1000', '1000', '1000'],
+  G: ['01110', '10001', '10000', '10111', '10001', '10001', '01111'],
+  H: ['10001', '10001', '10001', '11111', '10001', '10001', '10001'],
+  I: ['111', '010', '010', '010', '010', '010', '111'],
+  J: ['00111', '00010', '00010', '00010', '00010', '10010', '01100'],
+  K: ['10001', '10010', '10100', '11000', '10100', '10010', '10001'],
+  L: ['1000', '1000', '1000', '1000', '1000', '1000', '1111'],
+  M: ['10001', '11011', '10101', '10101', '10001', '10001', '10001'],
+  N: ['10001', '10001', '11001', '10101', '10011', '10001', '10001'],
+  O: ['01110', '10001', '10001', '10001', '10001', '10001', '01110'],
+  P: ['11110', '10001', '10001', '11110', '10000', '10000', '10000'],
+  Q: ['01110', '10001', '10001', '10001', '10101', '10010', '01101'],
+  R: ['11110', '10001', '10001', '11110', '10100', '10010', '10001'],
+  S: ['01111', '10000', '10000', '01110', '00001', '00001', '11110'],
+  T: ['11111', '00100', '00100', '00100', '00100', '00100', '00100'],
+  U: ['10001', '10001', '10001', '10001', '10001', '10001', '01110'],
+  V: ['10001', '10001', '10001', '10001', '10001', '01010', '00100'],
+  W: ['10001', '10001', '10001', '10101', '10101', '10101', '01010'],
+  X: ['10001', '10001', '01010', '00100', '01010', '10001', '10001'],
+  Y: ['10001', '10001', '01010', '00100', '00100', '00100', '00100'],
+  Z: ['11111', '00001', '00010', '00100', '01000', '10000', '11111'],
+  '0': ['0110', '1001', '1011', '1101', '1001', '1001', '0110'],
+  '1': ['010', '110', '010', '010', '010', '010', '111'],
+  '2': ['0110', '1001', '0001', '0010', '0100', '1000', '1111'],
+  '3': ['1110', '0001', '0001', '0110', '0001', '0001', '1110'],
+  '4': ['0010', '0110', '1010', '1010', '1111', '0010', '0010'],
+  '5': ['1111', '1000', '1110', '0001', '0001', '1001', '0110'],
+  '6': ['0110', '1000', '1000', '1110', '1001', '1001', '0110'],
+  '7': ['1111', '0001', '0010', '0010', '0100', '0100', '0100'],
+  '8': ['0110', '1001', '1001', '0110', '1001', '1001', '0110'],
+  '9': ['0110', '1001', '1001', '0111', '0001', '0001', '0110'],
+  '.': ['0', '0', '0', '0', '0', '0', '1'],
+  ',': ['00', '00', '00', '00', '00', '01', '10'],
+  '!': ['1', '1', '1', '1', '1', '0', '1'],
+  '?': ['01110', '10001', '00001', '00010', '00100', '00000', '00100'],
+  ':': ['0', '0', '1', '0', '1', '0', '0'],
+  ';': ['00', '00', '01', '00', '01', '01', '10'],
+  "'": ['1', '1', '0', '0', '0', '0', '0'],
+  '"': ['101', '101', '000', '000', '000', '000', '000'],
+  '-': ['000', '000', '000', '111', '000', '000', '000'],
+  '+': ['00000', '00100', '00100', '11111', '00100', '00100', '00000'],
+  '=': ['0000', '0000', '1111', '0000', '1111', '0000', '0000'],
+  '_': ['00000', '00000', '00000', '00000', '00000', '00000', '11111'],
+  '/': ['00001', '00001', '00010', '00100', '01000', '10000', '10000'],
+  '(': ['01', '10', '10', '10', '10', '10', '01'],
+  ')': ['10', '01', '01', '01', '01', '01', '10'],
+  '<': ['0001', '0010', '0100', '1000', '0100', '0010', '0001'],
+  '>': ['1000', '0100', '0010', '0001', '0010', '0100', '1000'],
+  '#': ['01010', '01010', '11111', '01010', '11111', '01010', '01010'],
+  '%': ['11001', '11001', '00010', '00100', '01000', '10011', '10011'],
+  '*': ['00000', '10101', '01110', '11111', '01110', '10101', '00000'],
+  '&': ['01100', '10010', '10100', '01000', '10101', '10010', '01101'],
+  '@': ['01110', '10001', '10111', '10101', '10111', '10000', '01111'],
+  '$': ['00100', '01111', '10100', '01110', '00101', '11110', '00100']
+};
+
+const glyphFor = (char: string): string[] | null => {
+  if (char === ' ') return null;
+  return FONT[char.toUpperCase()] ?? FONT['?'];
+};
+
+// 0/1 bitmap of one line of text at scale 1
+const rasterizeLine = (line: string): number[][] => {
+  const rows: number[][] = Array.from({ length: GLYPH_HEIGHT }, () => []);
+  [...line].forEach((char, idx) => {
+    if (idx > 0) rows.forEach(row => row.push(...Array(LETTER_GAP).fill(0)));
+    const glyph = glyphFor(char);
+    rows.forEach((row, r) => {
+      if (glyph) row.push(...[...glyph[r]].map(bit => bit === '1' ? 1 : 0));
+      else row.push(...Array(SPACE_WIDTH).fill(0));
+    });
+  });
+  return rows;
+};
+
+// Lines stacked, aligned inside the widest one, then scaled up by whole cells
+export const rasterizeText = (text: string, scale = 1, align: TextOptions['align'] = 'center'): number[][] => {
+  const lines = text.split('\n').map(rasterizeLine);
+  const width = Math.max(0, ...lines.map(line => line[0].length));
+  const bitmap: number[][] = [];
+  lines.forEach((line, idx) => {
+    if (idx > 0) for (let g = 0; g < LINE_GAP; g++) bitmap.push(Array(width).fill(0));
+    const slack = width - line[0].length;
+    const left = align === 'left' ? 0 : align === 'right' ? slack : Math.floor(slack / 2);
+    line.forEach(row => bitmap.push([...Array(left).fill(0), ...row, ...Array(slack - left).fill(0)]));
+  });
+
+  if (scale === 1) return bitmap;
+  const scaled: number[][] = [];
+  for (const row of bitmap) {
+    const wide = row.flatMap(bit => Array(scale).fill(bit));
+    for (let s = 0; s < scale; s++) scaled.push([...wide]);
+  }
+  return scaled;
+};
+
+// Size of the text block at scale 1
+const measureText = (text: string): [number, number] => {
+  const bitmap = rasterizeText(text);
+  return [bitmap[0]?.length ?? 0, bitmap.length];
+};
+
+// How the text block moves over the board. The bitmap's top-left corner sits at (x, y)
+// and steps by (dx, dy) cells every stepSeconds, through `steps` positions per pass.
+interface TextLayout {
+  rows: number;
+  cols: number;
+  brightness: number;
+  background: number;
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+  steps: number;
+  stepSeconds: number; // Infinity: static text that stays up until hideText
+  loop: boolean;
+}
+
+const MAX_STEP = 1; // Seconds. A backgrounded tab doesn't fast-forward the scroll.
+
+// showText's animation. The text bitmap is kept once and the visible rows x cols window
+// is cut from it when the scroll moves on, so a long message costs one board-sized grid
+// rather than a grid for every scroll position.
+export class TextAnimation {
+  private bitmap: number[][];
+  private layout: TextLayout;
+  private elapsed = 0;
+  private shownStep = -1;
+  private grid: number[][] = [];
+
+  constructor(bitmap: number[][], layout: TextLayout) {
+    this.bitmap = bitmap;
+    this.layout = layout;
+  }
+
+  // A single pass has scrolled out (or static text has been up for its duration)
+  public get finished(): boolean {
+    const { loop, steps, stepSeconds } = this.layout;
+    return !loop && this.elapsed >= steps * stepSeconds;
+  }
+
+  public advance(dt: number) {
+    const { loop, steps, stepSeconds } = this.layout;
+    this.elapsed += Math.min(Math.max(dt, 0), MAX_STEP);
+    // Keep a looping scroll's clock within one pass
+    if (loop && Number.isFinite(stepSeconds)) this.elapsed %= steps * stepSeconds;
+  }
+
+  // The window at the current step, rows top to bottom like customGrid. The same array is
+  // returned until the text moves, so the shader's texture is only rewritten on a step.
+  public current(): number[][] {
+    const { rows, cols, brightness, background, x, y, dx, dy, steps, stepSeconds } = this.layout;
+    const step = Math.min(steps - 1, Math.floor(this.elapsed / stepSeconds));
+    if (step === this.shownStep) return this.grid;
+
+    const left = x + dx * step;
+    const top = y + dy * step;
+    const bitmap = this.bitmap;
+    this.grid = Array.from({ length: rows }, (_, r) =>
+      Array.from({ length: cols }, (_, c) => bitmap[r - top]?.[c - left] ? brightness : background));
+    this.shownStep = step;
+    return this.grid;
+  }
+}
+
+// showText's animation for a rows x cols board.
+// Static text holds one position for `duration` (forever by default). Scrolling text
+// enters from one edge and leaves by the other, one cell per step.
+export const buildTextAnimation = (text: string, options: TextOptions, rows: number, cols: number): TextAnimation => {
+  const { align = 'center', valign = 'middle', brightness = 4, background = 0.1, speed = DEFAULT_SPEED } = options;
+  if (options.scroll !== undefined && !SCROLL_MODES.includes(options.scroll)) {
+    throw new Error(`Unknown text scroll: ${options.scroll}`);
+  }
+  // 0 would never finish a pass, and a negative speed breaks the step timing
+  if (!Number.isFinite(speed) || speed <= 0) {
+    throw new Error(`Text scroll speed must be above 0 (got ${speed})`);
+  }
+  const [baseWidth, baseHeight] = measureText(text);
+
+  // 'fit': as large as the board allows. Static text must fit both ways; scrolling text
+  // only across the axis it doesn't move along.
+  let scroll = options.scroll ?? 'auto';
+  const fitHeight = Math.max(1, Math.floor(rows / Math.max(1, baseHeight)));
+  const fitWidth = Math.max(1, Math.floor(cols / Math.max(1, baseWidth)));
+  if (scroll === 'auto') scroll = baseWidth <= cols && baseHeight <= rows ? 'none' : 'left';
+  const fitScale = scroll === 'none' ? Math.min(fitHeight, fitWidth)
+    : scroll === 'left' || scroll === 'right' ? fitHeight : fitWidth;
+  const scale = options.scale === undefined || options.scale === 'fit' ? fitScale : Math.max(1, Math.round(options.scale));
+
+  const bitmap = rasterizeText(text, scale, align);
+  const width = bitmap[0]?.length ?? 0;
+  const height = bitmap.length;
+
+  // Where the block sits when it isn't moving along that axis
+  const restX = align === 'left' ? 0 : align === 'right' ? cols - width : Math.floor((cols - width) / 2);
+  const restY = valign === 'top' ? 0 : valign === 'bottom' ? rows - height : Math.floor((rows - height) / 2);
+
+  const base = { rows, cols, brightness, background };
+  if (scroll === 'none') {
+    const duration = options.duration ?? Infinity;
+    return new TextAnimation(bitmap, { ...base, x: restX, y: restY, dx: 0, dy: 0, steps: 1, stepSeconds: duration, loop: false });
+  }
+
+  // From just off one edge until the last column (or row) has left the other
+  const moving = { ...base, stepSeconds: 1 / speed, loop: options.loop ?? false };
+  switch (scroll) {
+    case 'left': return new TextAnimation(bitmap, { ...moving, x: cols, y: restY, dx: -1, dy: 0, steps: cols + width + 1 });
+    case 'right': return new TextAnimation(bitmap, { ...moving, x: -width, y: restY, dx: 1, dy: 0, steps: cols + width + 1 });
+    case 'up': return new TextAnimation(bitmap, { ...moving, x: restX, y: rows, dx: 0, dy: -1, steps: rows + height + 1 });
+    case 'down': return new TextAnimation(bitmap, { ...moving, x: restX, y: -height, dx: 0, dy: 1, steps: rows + height + 1 });
+    default: throw new Error(`Unknown text scroll: ${scroll}`);
+  }
+};
@@ -0,0 +1,186 @@
+import { ConfigTransition, Cue, CueAction, CueList, GameConfig, TimelineState } from '../types';
+
+export const CUE_LIST_FORMAT = 'tetris-flow-cues';
+// Bump when the cue schema changes, and teach parseCueList to upgrade older files
+export const CUE_LIST_VERSION = 1;
+
+// A transition of zero: cancels any transition in progress and jumps
+const JUMP: ConfigTransition = { duration: 0 };
+const DEFAULT_BEAT_SECONDS = 0.5; // Until the first update says otherwise (120 bpm)
+
+// What the timeline asks of its host when a cue fires
+export interface TimelineHandlers {
+  // Apply a preset (by name) and/or a partial config on top, gliding if a transition is given
+  applyLook: (preset: string | undefined, config: Partial<GameConfig> | undefined, transition?: ConfigTransition) => void;
+  runAction: (action: CueAction, transition?: ConfigTransition) => void;
+  onCue?: (cue: Cue, index: number) => void;
+}
+
+// Plays a cue list against the frame clock. Time and beats are counted side by side:
+// beats advance at the live tempo, so beat cues stay on the music when the bpm moves.
+// Cues that come due in the same frame fire in list order.
+export class Timeline {
+  public readonly list: CueList;
+  public time = 0;
+  public beat = 0;
+  public playing = false;
+
+  private handlers: TimelineHandlers;
+  private fired: boolean[];
+  private beatSeconds = DEFAULT_BEAT_SECONDS; // Last seen, to convert seeks between units
+
+  constructor(list: CueList, handlers: TimelineHandlers) {
+    this.list = list;
+    this.handlers = handlers;
+    this.fired = list.cues.map(() => false);
+  }
+
+  public play() {
+    this.playing = true;
+  }
+
+  public pause() {
+    this.playing = false;
+  }
+
+  // Called every frame. beatSeconds is the length of a beat at the current tempo.
+  public update(dt: number, beatSeconds: number) {
+    this.beatSeconds = beatSeconds;
+    if (!this.playing || dt <= 0) return;
+    this.time += dt;
+    this.beat += dt / beatSeconds;
+    this.fireDue();
+
+    const { end } = this.list;
+    if (this.list.loop && end && this.reached(end)) {
+      // Carry the overshoot into the next pass so a loop doesn't drift off the music
+      if (end.beat !== undefined) {
+        this.beat -= end.beat;
+        this.time = this.beat * beatSeconds;
+      } else {
+        this.time -= end.time ?? 0;
+        this.beat = this.time / beatSeconds;
+      }
+      this.fired.fill(false);
+      this.fireDue();
+    }
+  }
+
+  // Jump to a point. The look is caught up with every cue before it (preset and config,
+  // without transitions); their actions are skipped. A cue right at the point fires on play.
+  public seek(position: number, unit: 'seconds' | 'beats' = 'seconds') {
+    const target = Math.max(0, position);
+    if (unit === 'beats') {
+      this.beat = target;
+      this.time = target * this.beatSeconds;
+    } else {
+      this.time = target;
+      this.beat = target / this.beatSeconds;
+    }
+
+    this.list.cues.forEach((cue, i) => {
+      this.fired[i] = this.before(cue);
+      if (this.fired[i] && (cue.preset || cue.config)) {
+        this.handlers.applyLook(cue.preset, cue.config, JUMP);
+      }
+    });
+  }
+
+  public getState(): TimelineState {
+    // The unfired cue that comes due first (beat cues measured at the current tempo)
+    let nextCue = -1;
+    let nextTime = Infinity;
+    this.list.cues.forEach((cue, i) => {
+      const at = this.seconds(cue);
+      if (!this.fired[i] && at < nextTime) {
+        nextCue = i;
+        nextTime = at;
+      }
+    });
+    return {
+      name: this.list.name,
+      playing: this.playing,
+      time: this.time,
+      beat: this.beat,
+      nextCue,
+      cueCount: this.list.cues.length
+    };
+  }
+
+  private fireDue() {
+    this.list.cues.forEach((cue, i) => {
+      if (this.fired[i] || !this.reached(cue)) return;
+      this.fired[i] = true;
+      this.fire(cue, i);
+    });
+  }
+
+  private fire(cue: Cue, index: number) {
+    this.handlers.onCue?.(cue, index);
+    if (cue.preset || cue.config) {
+      this.handlers.applyLook(cue.preset, cue.config, cue.transition);
+    }
+    for (const action of cue.actions ?? []) {
+      // One bad action shouldn't stop the show
+      try {
+        this.handlers.runAction(action, cue.transition);
+      } catch (e) {
+        console.error(`Timeline: cue ${index} action '${action.type}' failed`, e);
+      }
+    }
+  }
+
+  // A cue or end marker with `beat` is measured in beats, otherwise in seconds
+  private reached(at: { time?: number; beat?: number }): boolean {
+    return at.beat !== undefined ? this.beat >= at.beat : this.time >= (at.time ?? 0);
+  }
+
+  private before(at: { time?: number; beat?: number }): boolean {
+    return at.beat !== undefined ? at.beat < this.beat : (at.time ?? 0) < this.time;
+  }
+
+  private seconds(at: { time?: number; beat?: number }): number {
+    return at.beat !== undefined ? at.beat * this.beatSeconds : at.time ?? 0;
+  }
+}
+
+// Accepts the object or its JSON text. Throws on anything that isn't a usable cue list.
+export const parseCueList = (input: CueList | string): CueList => {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+
+  if (!data || data.format !== CUE_LIST_FORMAT) {
+    throw new Error('Not a Tetris Flow cue list');
+  }
+  if (typeof data.version !== 'number' || data.version > CUE_LIST_VERSION) {
+    throw new Error(`Unsupported cue list version: ${data.version}`);
+  }
+  if (!Array.isArray(data.cues)) {
+    throw new Error('Cue list is missing its cues');
+  }
+  data.cues.forEach((cue: Cue, i: number) => {
+    if (typeof cue?.time !== 'number' && typeof cue?.beat !== 'number') {
+      throw new Error(`Cue ${i} needs a time or a beat`);
+    }
+  });
+  if (data.loop && typeof data.end?.time !== 'number' && typeof data.end?.beat !== 'number') {
+    throw new Error('A looping cue list needs an end time or beat');
+  }
+  if (data.end !== undefined) {
+    // Beats win over seconds, as for cues
+    const unit = data.end?.beat !== undefined ? 'beat' : 'time';
+    const end = data.end?.[unit];
+    // A loop subtracts the end every pass: zero or less would re-fire every cue every frame
+    if (typeof end !== 'number' || !Number.isFinite(end) || end <= 0) {
+      throw new Error(`Cue list end must be a ${unit} after 0`);
+    }
+    // Cues placed in the other unit can't be compared without the tempo
+    const last = Math.max(0, ...data.cues
+      .filter((cue: Cue) => (cue.beat !== undefined ? 'beat' : 'time') === unit)
+      .map((cue: Cue) => cue[unit] as number));
+    if (end < last) {
+      throw new Error(`Cue list ends (${unit} ${end}) before its last cue (${unit} ${last})`);
+    }
+  }
+
+  return data as CueList;
+};
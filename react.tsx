@@ -0,0 +1,42 @@
+// React wrapper over the framework-free core: just the board, without the debug panel,
+// lucide or Tailwind. React is the host app's own (it isn't bundled).
+//
+//   <TetrisFlowBoard options={{ visualStyle: 'fire' }} config={{ bpm }} onReady={api => api.loadPreset('ember')} />
+
+import React, { useEffect, useRef } from 'react';
+import { GameConfig, SDKInitOptions, TetrisGlobalAPI, TetrisInstance } from './types';
+import { createTetrisFlow } from './core';
+
+export interface TetrisFlowBoardProps {
+  options?: SDKInitOptions;         // Read once, when the board mounts
+  config?: Partial<GameConfig>;     // Applied whenever it changes (bulkUpdate)
+  onReady?: (api: TetrisGlobalAPI) => void;
+  className?: string;
+  style?: React.CSSProperties;      // The board fills this element: give it a size
+}
+
+export const TetrisFlowBoard: React.FC<TetrisFlowBoardProps> = ({ options, config, onReady, className, style }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const instanceRef = useRef<TetrisInstance | null>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const instance = createTetrisFlow(containerRef.current, { ...options, ...config });
+    instanceRef.current = instance;
+    onReady?.(instance.api!);
+
+    return () => {
+      instance.destroy();
+      instanceRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []); // Only run once on mount
+
+  useEffect(() => {
+    if (config) instanceRef.current?.api?.bulkUpdate(config);
+  }, [config]);
+
+  return <div ref={containerRef} className={className} style={{ position: 'relative', overflow: 'hidden', ...style }} />;
+};
+
+export default TetrisFlowBoard;
@@ -0,0 +1,89 @@
+// In-memory preset server for trying the REST preset storage. Everything is lost on exit.
+//
+//   npm run preset-server -- --port=8787
+//
+// Then: TetrisSDK.init('bg', { presetStorage: { type: 'rest', url: 'http://localhost:8787/presets' } })
+//
+// Flags: --port (default 8787) --path (default /presets)
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+
+const args = new Map<string, string>();
+for (const arg of process.argv.slice(2)) {
+  const match = arg.match(/^--([^=]+)(?:=(.*))?$/);
+  if (match) args.set(match[1], match[2] ?? 'true');
+}
+
+const port = Number(args.get('port') ?? 8787);
+const basePath = (args.get('path') ?? '/presets').replace(/\/+$/, '');
+
+const presets = new Map<string, string>();
+
+const send = (res: ServerResponse, status: number, body?: string) => {
+  res.writeHead(status, {
+    // The SDK runs on another origin (the vite dev server, or the host page)
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': '*',
+    ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+  });
+  res.end(body);
+};
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/\/+$/, '');
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (path === basePath) {
+    return req.method === 'GET' ? send(res, 200, JSON.stringify([...presets.keys()])) : send(res, 405);
+  }
+  if (!path.startsWith(basePath + '/')) return send(res, 404);
+
+  let name: string;
+  try {
+    name = decodeURIComponent(path.slice(basePath.length + 1));
+  } catch (e) {
+    return send(res, 400); // Malformed %-escape in the name
+  }
+  switch (req.method) {
+    case 'GET': {
+      const preset = presets.get(name);
+      return preset === undefined ? send(res, 404) : send(res, 200, preset);
+    }
+    case 'PUT': {
+      const body = await readBody(req);
+      try {
+        JSON.parse(body);
+      } catch (e) {
+        return send(res, 400);
+      }
+      presets.set(name, body);
+      return send(res, 204);
+    }
+    case 'DELETE':
+      return send(res, presets.delete(name) ? 204 : 404);
+    default:
+      return send(res, 405);
+  }
+};
+
+// Anything unexpected answers 500 instead of taking the server down
+const server = createServer((req, res) => {
+  handle(req, res).catch(e => {
+    console.error('Preset server: request failed', e);
+    if (res.headersSent) res.end();
+    else send(res, 500);
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Preset server on http://localhost:${port}${basePath}`);
+});
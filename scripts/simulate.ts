@@ -0,0 +1,45 @@
+// Headless AI simulation. Prints JSON stats to stdout.
+//
+//   npm run simulate -- --rows=18 --cols=20 --bpm=120 --pieces=1000 --runs=5
+//   npm run simulate -- --line-clear --min-lines=2 --seed=1234
+//   npm run simulate -- --strategy=dellacherie --line-clear
+//
+// Flags: --rows --cols --bpm --pieces --runs --seed --line-clear --min-lines --continue
+//        --strategy (greedy | lookahead | dellacherie | chaotic | picture) --mistakes
+// (--continue keeps playing after a top-out instead of stopping the run)
+
+import { runSimulation, summarizeSimulations, SimulationOptions } from '../logic/HeadlessRunner';
+import { AIStrategyName, DEFAULT_COLS, DEFAULT_ROWS } from '../types';
+
+const args = new Map<string, string>();
+for (const arg of process.argv.slice(2)) {
+  const match = arg.match(/^--([^=]+)(?:=(.*))?$/);
+  if (match) args.set(match[1], match[2] ?? 'true');
+}
+
+const num = (name: string, fallback: number): number => {
+  const value = Number(args.get(name));
+  return args.has(name) && Number.isFinite(value) ? value : fallback;
+};
+
+const options: SimulationOptions = {
+  rows: num('rows', DEFAULT_ROWS),
+  cols: num('cols', DEFAULT_COLS),
+  bpm: num('bpm', 60),
+  pieces: num('pieces', 1000),
+  seed: num('seed', 0),
+  enableLineClear: args.get('line-clear') === 'true',
+  minLinesToClear: num('min-lines', 1),
+  stopOnTopOut: args.get('continue') !== 'true',
+  strategy: (args.get('strategy') ?? 'greedy') as AIStrategyName,
+  mistakeRate: num('mistakes', 0.1)
+};
+
+const runCount = Math.max(1, Math.floor(num('runs', 1)));
+const runs = [];
+for (let i = 0; i < runCount; i++) {
+  // Consecutive seeds keep a multi-run batch reproducible from its first seed
+  runs.push(runSimulation({ ...options, seed: options.seed ? options.seed + i : 0 }));
+}
+
+process.stdout.write(JSON.stringify({ options, summary: summarizeSimulations(runs), runs }, null, 2) + '\n');
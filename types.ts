@@ -10,13 +10,41 @@ export interface GameConfig {
   minLinesToClear: number; // For classic mode, how many lines to trigger clear
   gridRows: number;
   gridCols: number;
+  // Drives the piece bag, 'sparkle' and the star field. Same seed + config = same run.
+  // 0 picks a fresh random seed each session.
+  seed: number;
+
+  // Beat-quantized scheduling: AI actions land on the beat grid instead of free-running timers
+  beatSync: boolean;
+  beatsPerBar: number;
+  beatPhaseOffset: number; // Beats (-0.5 to 0.5), nudges the grid against the music
+  spawnOn: BeatDivision;   // When a new piece appears
+  moveOn: BeatDivision;    // Rotations, shifts and falling rows
+  lockOn: BeatDivision;    // When a landed piece locks
+
+  // AI
+  aiStrategy: AIStrategyName;
+  aiWeights: Partial<AIWeights>; // Overrides on top of the strategy's defaults
+  aiMistakeRate: number;         // 0 to 1, how often 'chaotic' misplays
+
+  // Target image: the AI stacks pieces to draw this bitmap (line clears off). [] = normal play.
+  // Rows top to bottom, bottom-aligned with the board: '.' empty, '#' any piece, I/J/L/O/S/T/Z that piece.
+  targetImage: string[];
+  targetCompleteAction: 'celebrate' | 'reset'; // Celebrate shows off the image before restarting
   
   // Camera
-  cameraMode: 'orbit' | 'manual'; // 'front' is just a manual preset now
+  cameraMode: 'orbit' | 'manual' | 'path'; // 'path' plays cameraPath
   cameraX: number;
   cameraY: number;
   cameraZ: number;
   rotationSpeed: number;
+  cameraFov: number;              // Degrees, for orbit and manual (path keyframes can set their own)
+  cameraPath: CameraPath | null;  // Saved with presets; see CAMERA_PATHS for the built-in ones
+  // Reactive moves, layered over any mode. 0 = off, 1 = full.
+  cameraFollow: number;  // Track the falling piece
+  cameraPunch: number;   // Push in on line clears
+  cameraShake: number;   // Jolt on every beat
+  cameraDolly: number;   // Slow drift in and out
 
   // Visuals
   temperature: number; // 0 to 1
@@ -26,9 +54,17 @@ export interface GameConfig {
   fogDensity: number; // Controls atmosphere/brightness falloff
   
   // Flow / FX
-  // Added 'custom' for user-defined bitmaps
-  visualStyle: 'none' | 'wave' | 'plasma' | 'heart' | 'matrix' | 'fire' | 'scanline' | 'sparkle' | 'custom';
+  // A built-in style ('custom' reads customGrid) or a name added with registerStyle.
+  // Unknown names render as 'none'.
+  visualStyle: BuiltInVisualStyle | (string & {});
   flowSpeed: number;
+  // How much the flow pattern also drives each channel, per unit of (flow - 1).
+  // 0 = brightness only. Negative gains invert the effect (bright cells fade, shrink...).
+  flowHue: number;        // Turns of hue rotation
+  flowSaturation: number; // Positive: dim cells lose color
+  flowScale: number;      // Cube size
+  flowExtrude: number;    // Cells of z pop-out toward the camera
+  flowOpacity: number;    // Positive: dim cells turn transparent
   
   // A 2D array of brightness values (0 to ~5) for the 'custom' style
   // Dimensions should match gridRows/gridCols, or will be read relatively
@@ -42,67 +78,602 @@ export interface GameConfig {
   environmentDimming: number; // 0 = Full Reflection, 1 = No Reflection
 }
 
+// How the AI picks placements:
+// greedy      - best single placement for the current piece
+// lookahead   - best pair of placements using the next piece in the bag
+// dellacherie - Pierre Dellacherie's six-feature evaluator
+// chaotic     - greedy, but human-like: sometimes second-best, occasionally a blunder
+// picture     - stacks onto the bright cells of customGrid
+export type AIStrategyName = 'greedy' | 'lookahead' | 'dellacherie' | 'chaotic' | 'picture';
+
+// Linear evaluator weights. Positive rewards a feature, negative penalises it.
+export interface AIWeights {
+  height: number;            // Sum of column heights
+  lines: number;             // Complete lines
+  holes: number;             // Empty cells covered from above
+  bumpiness: number;         // Height differences between neighbouring columns
+  landingHeight: number;     // Height the piece comes to rest at
+  erodedCells: number;       // Lines completed x the piece's own cells in them
+  rowTransitions: number;    // Filled/empty changes along rows (walls count as filled)
+  columnTransitions: number; // Filled/empty changes down columns (floor counts as filled)
+  wells: number;             // Cumulative well depth
+  picture: number;           // Per cell landing on (+) or off (-) the customGrid picture
+}
+
+// Grid lines for quantized actions: whole bars, beats, 8th notes or 16th notes
+export type BeatDivision = 'bar' | 'beat' | 'eighth' | 'sixteenth';
+
+export interface BeatPosition {
+  bar: number;
+  beat: number;         // Beat within the bar, 0-based
+  subdivision: number;  // 16th within the beat, 0 to 3
+  phase: number;        // 0 to 1 through the current beat
+  totalBeats: number;   // Fractional beats since the clock started
+}
+
 export interface Tetromino {
   shape: number[][];
   colorOffset: number; // Hue offset from base temperature
   pivot: { x: number; y: number };
 }
 
-export type TetrisEventType = 'reset' | 'lineClear';
+export type TetrisEventType = 'reset' | 'lineClear' | 'pieceSpawn' | 'pieceLock' | 'boardFull' | 'topOut' | 'targetComplete' | 'cue';
+
+// --- EVENT PAYLOADS ---
+// Row indices are logical grid rows: 0 is the TOP row of the board.
+// fillRatio is the share of occupied cells (0 to 1) at the moment of the event.
+
+export interface LineClearEvent {
+  rows: number[];     // Logical indices of the rows that were removed
+  count: number;      // rows.length, for convenience
+  combo: number;      // Consecutive locks that cleared lines (1 = first clear in a chain)
+  pieceType: string;  // The piece whose lock completed the rows
+  fillRatio: number;  // Board fill AFTER the rows were removed
+}
+
+export interface PieceSpawnEvent {
+  pieceType: string;
+  x: number;
+  y: number;
+  fillRatio: number;
+}
+
+export interface PieceLockEvent {
+  pieceType: string;
+  x: number;
+  y: number;
+  fillRatio: number; // Board fill including the locked piece, before any line clear
+}
+
+// Fired when a new piece cannot spawn.
+// 'boardFull' is the expected end of a stacking run (enableLineClear = false),
+// 'topOut' is a loss in classic line-clear mode. Exactly one of them fires per game.
+export interface GameOverEvent {
+  pieceType: string;  // The piece that was blocked
+  fillRatio: number;
+  piecesPlaced: number;
+  linesCleared: number;
+}
+
+export interface ResetEvent {
+  // 'timeUp': a duration fit (see MusicSyncParams.fitToDuration) reached the end of the song
+  // 'cue': a timeline cue asked for a fresh board
+  reason: 'boardFull' | 'topOut' | 'timeUp' | 'targetComplete' | 'cue';
+  piecesPlaced: number;
+  linesCleared: number;
+}
+
+export interface TargetCompleteEvent {
+  piecesPlaced: number;
+  exact: boolean; // Every cell got the piece type the image asked for
+}
+
+// A timeline cue fired (before its config and actions are applied)
+export interface CueEvent {
+  index: number;   // Position in the cue list
+  label?: string;
+  time: number;    // Timeline seconds
+  beat: number;    // Timeline beats
+}
+
+export interface TetrisEventPayloads {
+  reset: ResetEvent;
+  lineClear: LineClearEvent;
+  pieceSpawn: PieceSpawnEvent;
+  pieceLock: PieceLockEvent;
+  boardFull: GameOverEvent;
+  topOut: GameOverEvent;
+  targetComplete: TargetCompleteEvent;
+  cue: CueEvent;
+}
+
+export type TetrisEventCallback<K extends TetrisEventType = TetrisEventType> = (payload: TetrisEventPayloads[K]) => void;
+
+// Internal dispatcher signature shared by TetrisGame -> SceneManager -> App
+export type TetrisEventHandler = <K extends TetrisEventType>(type: K, payload: TetrisEventPayloads[K]) => void;
+
+// --- RECORDING / REPLAY ---
+
+// Every state change TetrisGame makes, in the order it makes them.
+// 'spawn' is logged for every piece drawn, including one that tops out.
+export type GameAction =
+  | { type: 'spawn'; piece: string }
+  | { type: 'rotate' }
+  | { type: 'shift'; dx: number }
+  | { type: 'drop' }
+  | { type: 'lock' }
+  | { type: 'clear'; rows: number[] }
+  | { type: 'reset'; rows: number; cols: number }
+  | { type: 'rules'; enableLineClear: boolean; minLinesToClear: number }; // Line-clear rules changed
+
+export type RecordedAction = GameAction & { t: number }; // Seconds since recording start
+
+export interface GameRecording {
+  format: 'tetris-flow-recording';
+  version: number;
+  seed: number;       // Effective seed of the recorded run
+  config: GameConfig; // Config at the start of the recording
+  duration: number;   // Seconds
+  actions: RecordedAction[];
+}
+
+export interface ReplayOptions {
+  speed?: number; // Playback rate, 1 = real time, 0 = paused
+  loop?: boolean;
+}
+
+export interface ReplayState {
+  time: number;
+  duration: number;
+  speed: number;
+  playing: boolean;
+}
 
 export interface MusicSyncParams {
   density: number;      // 0.0 to 1.0 (Controls flowSpeed)
   brightness: number;   // 0.0 to 1.0 (Controls temperature)
   expectedDuration: number; // Seconds (Controls BPM estimation)
+  // Start a fresh board and keep adjusting the tempo while it plays, so the board
+  // reaches targetFill (and resets) right as expectedDuration runs out
+  fitToDuration?: boolean;
+  // Fill ratio (0 to 1) to aim for. Defaults to the fill at which the AI typically tops out.
+  targetFill?: number;
+}
+
+// --- VISUAL STYLES ---
+
+export type BuiltInVisualStyle = 'none' | 'wave' | 'plasma' | 'heart' | 'matrix' | 'fire' | 'scanline' | 'sparkle' | 'custom';
+
+// What a style function sees for one cube. The object is reused between calls: don't keep it.
+export interface StyleInput {
+  x: number;          // Column
+  y: number;          // Row, 0 at the bottom
+  cols: number;
+  rows: number;
+  time: number;       // Seconds
+  flowSpeed: number;
+  pieceType: string;  // 'I', 'J', ... for the piece the cube belongs to
+  beatPhase: number;  // 0 to 1 through the current beat
+  audioLevel: number; // 0 to 1, from connectAudio (0 without audio)
+}
+
+export interface StyleOutput {
+  brightness: number; // Emissive multiplier, 1 = unchanged
+  hueShift?: number;  // Turns around the color wheel
+  scale?: number;     // Cube size multiplier
+  zOffset?: number;   // Pop-out toward the camera, in cells
+}
+
+// Evaluated on the CPU for every cube, every frame. A bare number is the brightness.
+export type StyleFunction = (cell: StyleInput) => number | StyleOutput;
+
+// --- CUSTOM ANIMATION ---
+
+// One customGrid frame. Lasts `duration` seconds, or `beats` at the current bpm if given.
+export interface CustomFrame {
+  grid: number[][];
+  duration?: number; // Default 0.1
+  beats?: number;
+}
+
+export interface CustomAnimation {
+  frames: CustomFrame[];
+  loop?: boolean;        // Default true. Otherwise the last frame holds.
+  interpolate?: boolean; // Crossfade each frame into the next. Default false.
+}
+
+export interface FrameLoaderOptions {
+  rows?: number;          // Frame size. Defaults to the board (gridRows x gridCols).
+  cols?: number;
+  fit?: 'contain' | 'cover' | 'stretch'; // Default 'contain': letterboxed, never cropped
+  brightness?: number;    // customGrid value for a white pixel. Default 3.
+  invert?: boolean;       // Light up dark pixels instead
+  frameDuration?: number; // Seconds per frame for sprite sheets and GIF frames with no delay
+  frameBeats?: number;    // Beats per frame instead (overrides GIF delays too)
+  loop?: boolean;
+  interpolate?: boolean;
+}
+
+export interface SpriteSheetOptions extends FrameLoaderOptions {
+  frameWidth: number;     // Pixels
+  frameHeight: number;
+  frameCount?: number;    // Default: every whole frame on the sheet
+}
+
+// showText. The text is drawn with the 'custom' style over the running game and the
+// configured style comes back when it's done.
+export interface TextOptions {
+  // 'auto' (default) stays still if the text fits the board and scrolls left if not
+  scroll?: 'auto' | 'none' | 'left' | 'right' | 'up' | 'down';
+  speed?: number;         // Scrolling, in cells per second (above 0). Default 10.
+  loop?: boolean;         // Keep scrolling until hideText. Default: one pass.
+  duration?: number;      // Seconds static text stays up. Default: until hideText.
+  align?: 'left' | 'center' | 'right';   // Default 'center'. Also aligns multi-line text.
+  valign?: 'top' | 'middle' | 'bottom';  // Default 'middle'
+  scale?: number | 'fit'; // Cells per font pixel. 'fit' (default) is the largest that fits.
+  brightness?: number;    // Lit cells. Default 4.
+  background?: number;    // Unlit cells. Default 0.1.
+}
+
+export type GifSource = string | Blob | ArrayBuffer | Uint8Array; // URL or file contents
+export type SpriteSheetSource = string | Blob | HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+// --- PRESETS ---
+
+// A preset as stored and shared. Older files are upgraded when read (see PresetManager).
+export interface PresetFile {
+  format: 'tetris-flow-preset';
+  version: number;
+  name?: string;
+  // A partial preset only changes the fields it has. A full one resets the others to their defaults.
+  partial?: boolean;
+  config: Partial<GameConfig>;
+}
+
+// A preset that ships with the app (read-only; clone it to edit)
+export interface FactoryPresetInfo {
+  name: string;
+  description: string;
+  thumbnail: string; // Image URL (an SVG data URL)
+}
+
+// Where presets are kept. Backends move serialized presets (text) by name. Every method
+// may reject (e.g. the server is down): PresetManager logs the error and carries on.
+export interface PresetStorage {
+  list(): Promise<string[]>;
+  read(name: string): Promise<string | null>; // null when there's no such preset
+  write(name: string, data: string): Promise<void>;
+  delete(name: string): Promise<void>;
+}
+
+// Built-in backends by name, a REST endpoint, or your own adapter
+export type PresetStorageOption =
+  | 'localStorage' // Default. This browser profile only.
+  | 'indexedDB'    // Same reach, no 5 MB cap
+  | 'memory'       // Gone on reload
+  | { type: 'rest'; url: string; headers?: Record<string, string> }
+  | PresetStorage;
+
+// --- CAMERA PATHS ---
+
+// World units: one cell is 1, and the board's centre is at (0, 10, 0)
+export interface CameraKeyframe {
+  time: number;                         // Seconds from the start of the path (beats with timing 'beats')
+  position: [number, number, number];
+  target?: [number, number, number];    // Where the camera looks. Default: the board's centre.
+  fov?: number;                         // Degrees. Default: cameraFov.
+  roll?: number;                        // Degrees around the view axis
+}
+
+export interface CameraPath {
+  keyframes: CameraKeyframe[];
+  interpolation?: 'spline' | 'linear';  // Default 'spline' (Catmull-Rom through every keyframe)
+  timing?: 'seconds' | 'beats';         // Default 'seconds'
+  loop?: boolean;                       // Otherwise the last keyframe holds
+  duration?: number;                    // Loop length. The path glides from the last keyframe back to the first by then.
+}
+
+// --- TIMELINE ---
+
+export type EasingName = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'easeInCubic' | 'easeOutCubic' | 'easeInOutCubic';
+
+// A config change that glides instead of jumping. Numeric fields (the palette follows
+// temperature) are interpolated; everything else (board size, style, modes...) switches at one point.
+export interface ConfigTransition {
+  duration: number;     // Seconds
+  easing?: EasingName;  // Default 'easeInOut'
+  switchAt?: number;    // 0 to 1 through the transition, when discrete fields switch. Default 0 (at the start).
+}
+
+export interface PresetLoadOptions {
+  crossfade?: number;   // Seconds to glide from the current look. Default 0 (instant).
+  easing?: EasingName;
+  switchAt?: number;    // See ConfigTransition
+}
+
+export type CueAction =
+  | { type: 'reset' }
+  | { type: 'showText'; text: string; options?: TextOptions }
+  | { type: 'hideText' }
+  // Moves the camera to a fixed position (switches cameraMode to 'manual' unless mode is given),
+  // or starts a path: a CameraPath or the name of a built-in one (switches to 'path')
+  | { type: 'camera'; x?: number; y?: number; z?: number; mode?: GameConfig['cameraMode']; rotationSpeed?: number; path?: CameraPath | string };
+
+// One step of a show. Fires at `time` seconds or `beat` beats after play (beats follow
+// the live tempo). A cue can carry any mix of preset, config and actions; they apply
+// in that order, and the transition covers both the preset and the config.
+export interface Cue {
+  time?: number;
+  beat?: number;
+  label?: string;
+  preset?: string;
+  config?: Partial<GameConfig>;
+  transition?: ConfigTransition;
+  actions?: CueAction[];
+}
+
+export interface CueList {
+  format: 'tetris-flow-cues';
+  version: number;
+  name?: string;
+  loop?: boolean;                          // Start over at `end` (required when looping)
+  end?: { time?: number; beat?: number };  // Seconds or beats, like a cue
+  cues: Cue[];
+}
+
+export interface TimelineState {
+  name?: string;
+  playing: boolean;
+  time: number;      // Seconds since the start
+  beat: number;      // Beats since the start
+  nextCue: number;   // Index of the next cue to fire, -1 when all have fired
+  cueCount: number;
+}
+
+// --- TARGET IMAGE ---
+
+// Rows as strings (see GameConfig.targetImage), or a 2D array whose cells are those same
+// characters, CSS hex colors (matched to the nearest piece hue) or null for empty.
+export type TargetImageInput = string[] | (string | null)[][];
+
+// --- AUDIO INPUT ---
+
+export type AudioInput = AudioNode | MediaStream | HTMLMediaElement;
+
+export interface AudioReactiveOptions {
+  // Which config fields the analysis drives (all true by default)
+  flowSpeed?: boolean;    // From energy
+  temperature?: boolean;  // From spectral brightness
+  bpm?: boolean;          // From detected tempo
+  bloomStrength?: boolean; // From energy, with a kick on every onset
+  beatLockedDrops?: boolean; // Align the beat grid to detected beats and quantize actions to it. Default true.
 }
 
 export interface TetrisGlobalAPI {
-  set: (key: keyof GameConfig, value: any) => void;
+  /**
+   * Change one field. With a transition, numeric fields glide there.
+   */
+  set: (key: keyof GameConfig, value: any, transition?: ConfigTransition) => void;
   setMode: (mode: AppMode) => void;
-  loadPreset: (name: string) => void;
-  getPresets: () => string[];
-  bulkUpdate: (partialConfig: Partial<GameConfig>) => void;
+  /**
+   * Preset calls go through the configured storage (see SDKInitOptions.presetStorage),
+   * which may be remote, so they all return promises.
+   */
+  loadPreset: (name: string, options?: PresetLoadOptions) => Promise<void>;
+  getPresets: () => Promise<string[]>; // Factory presets first, then saved ones
+  getFactoryPresets: () => FactoryPresetInfo[];
+  /**
+   * Save an editable copy of a preset (usually a factory one) under `newName`, default
+   * "<name> copy". Resolves to the name used, or null if there's no such preset.
+   * Rejects if the storage can't write it.
+   */
+  clonePreset: (name: string, newName?: string) => Promise<string | null>;
+  /**
+   * Save the current config. Pass fields to save a partial preset with only those.
+   * Rejects if the storage can't write it.
+   */
+  savePreset: (name: string, fields?: (keyof GameConfig)[]) => Promise<void>;
+  /**
+   * Add a preset from a file (the object or its JSON text). Older versions are upgraded and
+   * out-of-range values clamped. Saved under `name`, else the file's own name. Returns the name used.
+   * Rejects if it isn't a preset or the storage can't write it.
+   */
+  importPreset: (preset: PresetFile | string, name?: string) => Promise<string>;
+  /**
+   * A saved preset as versioned JSON text (null if there's no such preset)
+   */
+  exportPreset: (name: string) => Promise<string | null>;
+  downloadPreset: (name: string, filename?: string) => Promise<void>;
+  /**
+   * A link that opens this page with the preset applied (the current config without a name)
+   */
+  getPresetShareUrl: (name?: string) => Promise<string | null>;
+  bulkUpdate: (partialConfig: Partial<GameConfig>, transition?: ConfigTransition) => void;
   toggle: (key: keyof GameConfig) => void;
   
   /**
-   * Sync visual parameters with music analysis data
+   * Sync visual parameters with music analysis data. The first call for a board size and AI
+   * calibrates the tempo model in the background: the BPM follows once that's done.
    */
   syncMusic: (params: MusicSyncParams) => void;
 
+  /**
+   * Analyse live audio and let it drive the visuals continuously.
+   * Replaces any previous connection.
+   */
+  connectAudio: (input: AudioInput, options?: AudioReactiveOptions) => void;
+  disconnectAudio: () => void;
+
+  /**
+   * Tap tempo. Call on each beat; sets bpm from the average tap interval and
+   * lines the beat grid up with the tap. Returns the new BPM (null on the first tap).
+   */
+  tap: () => number | null;
+  /**
+   * Declare where in the beat the music is right now (0 = on the beat, 0.5 = off-beat).
+   * Pass beatInBar (0-based) to also fix the downbeat.
+   */
+  setBeatPhase: (phase: number, beatInBar?: number) => void;
+  getBeatPosition: () => BeatPosition;
+
+  /**
+   * Have the AI build a picture out of locked pieces (line clears are disabled meanwhile).
+   * Fires 'targetComplete' when done. Pass null to return to normal play.
+   */
+  setTargetImage: (image: TargetImageInput | null) => void;
+
+  /**
+   * Add a visualStyle, or replace one added earlier (built-ins can't be replaced).
+   * Pass a function (runs on the CPU per cube) or a GLSL function body (runs on the GPU):
+   * see README "Light Flow Styles" for what the shader chunk can read and write.
+   * Throws if a GLSL body doesn't compile (any style registered under that name is kept).
+   */
+  registerStyle: (name: string, style: StyleFunction | string) => void;
+  getStyles: () => string[];
+
+  /**
+   * Play a customGrid animation with the 'custom' style (switches to it).
+   * Takes precedence over customGrid until called with null.
+   */
+  loadCustomAnimation: (animation: CustomAnimation | null) => void;
+  /**
+   * Queue one frame, e.g. from a live generator. Starts a non-looping animation if
+   * none is playing; frames play in order and the newest holds until the next arrives.
+   */
+  pushCustomFrame: (grid: number[][], timing?: Pick<CustomFrame, 'duration' | 'beats'>) => void;
+  /**
+   * Decode an animated GIF into brightness frames sized to the board and play it
+   */
+  loadCustomGif: (source: GifSource, options?: FrameLoaderOptions) => Promise<CustomAnimation>;
+  /**
+   * Cut a sprite sheet into brightness frames sized to the board and play it
+   */
+  loadCustomSpriteSheet: (source: SpriteSheetSource, options: SpriteSheetOptions) => Promise<CustomAnimation>;
+
+  /**
+   * Spell text on the board in the built-in bitmap font ('\n' for more lines).
+   * Play carries on underneath; a new call replaces the current text.
+   */
+  showText: (text: string, options?: TextOptions) => void;
+  hideText: () => void;
+
+  /**
+   * Start capturing the run. Restarts the board so the recording begins from the first piece.
+   * Line-clear rule changes are recorded; resizing the board ends the recording there.
+   */
+  startRecording: () => void;
+  /**
+   * Stop capturing and return the recording, or the one a resize ended (null if neither)
+   */
+  stopRecording: () => GameRecording | null;
+  /**
+   * Save a recording as a versioned .json file (browser download)
+   */
+  downloadRecording: (recording: GameRecording, filename?: string) => void;
+  /**
+   * Replace the live AI with a recorded run. Accepts the object or its JSON text.
+   */
+  playRecording: (recording: GameRecording | string, options?: ReplayOptions) => void;
+  setReplaySpeed: (speed: number) => void;
+  /**
+   * Jump to a point in the replay, in seconds
+   */
+  seekReplay: (time: number) => void;
+  /**
+   * Leave replay mode and resume the live AI game
+   */
+  stopReplay: () => void;
+  getReplayState: () => ReplayState | null;
+
+  /**
+   * Load a cue list (the object or its JSON text), replacing any current one.
+   * It waits at the start unless autoplay is set. Resolves once the presets its cues
+   * name are fetched from storage, so they switch on time.
+   */
+  loadTimeline: (cues: CueList | string, options?: { autoplay?: boolean }) => Promise<void>;
+  playTimeline: () => void;
+  pauseTimeline: () => void;
+  /**
+   * Jump to a point in the timeline, in seconds (or beats). The presets and config of the
+   * cues skipped over are applied at once; their actions are not.
+   */
+  seekTimeline: (position: number, unit?: 'seconds' | 'beats') => void;
+  /**
+   * Stop and unload the timeline. The look stays as the last cue left it.
+   */
+  stopTimeline: () => void;
+  getTimelineState: () => TimelineState | null;
+
+  /**
+   * Fly the camera along a keyframed path: a CameraPath, or the name of a built-in one
+   * (see getCameraPaths). Switches cameraMode to 'path'.
+   */
+  setCameraPath: (path: CameraPath | string) => void;
+  getCameraPaths: () => string[];
+
   /**
    * Register an event listener
-   * @param event The event name (e.g., 'reset')
-   * @param callback Function to execute when event triggers
+   * @param event The event name (e.g., 'reset', 'lineClear')
+   * @param callback Function to execute when event triggers. Receives the typed payload for the event.
    */
-  on: (event: TetrisEventType, callback: () => void) => void;
+  on: <K extends TetrisEventType>(event: K, callback: TetrisEventCallback<K>) => void;
   /**
    * Remove an event listener
    */
-  off: (event: TetrisEventType, callback: () => void) => void;
+  off: <K extends TetrisEventType>(event: K, callback: TetrisEventCallback<K>) => void;
+}
+
+// Initial config overrides plus SDK-only settings
+export interface SDKInitOptions extends Partial<GameConfig> {
+  presetStorage?: PresetStorageOption; // Where presets are kept. Default 'localStorage'.
+}
+
+// One board made by TetrisSDK.create, independent of any other on the page
+export interface TetrisInstance {
+  /**
+   * This board's control API (null until it has mounted, and after destroy)
+   */
+  readonly api: TetrisGlobalAPI | null;
+  /**
+   * Resolves with the API once the board has mounted
+   */
+  ready: Promise<TetrisGlobalAPI>;
+  /**
+   * Unmount the board and free its resources. Other boards are untouched.
+   */
+  destroy: () => void;
 }
 
 export interface TetrisSDK {
   /**
-   * Initialize the 3D Background into a specific container
+   * Create a board in a container (the element or its ID). Each board has its own API,
+   * events, presets and scene, so a page can run several. Nothing is written to window.
+   */
+  create: (container: HTMLElement | string, options?: SDKInitOptions) => TetrisInstance;
+
+  /**
+   * Initialize the 3D Background into a specific container.
+   * The single-board shortcut: replaces the board from a previous init (not those from
+   * create) and publishes its API as window.TetrisFlow.
    * @param containerId The ID of the DOM element to mount the canvas into
-   * @param options Optional initial configuration overrides
+   * @param options Optional initial configuration overrides and SDK settings
    */
-  init: (containerId: string, options?: Partial<GameConfig>) => void;
+  init: (containerId: string, options?: SDKInitOptions) => void;
   
   /**
-   * Destroy the instance and cleanup resources
+   * Destroy the board from init and cleanup resources
    */
   destroy: () => void;
 
   /**
-   * Access the runtime control API (Available after init)
+   * Access the runtime control API of the board from init (Available after init)
    */
   api: TetrisGlobalAPI | null;
 }
 
 declare global {
   interface Window {
-    TetrisFlow: TetrisGlobalAPI; // The runtime controller
+    TetrisFlow: TetrisGlobalAPI; // The runtime controller (of the init() board)
     TetrisSDK: TetrisSDK;        // The bootstrapper
   }
 }
@@ -0,0 +1,30 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+// Library build of the framework-free core and its wrappers, as ES modules in dist/core:
+// core.js, element.js (<tetris-flow>) and react.js. three is bundled so a page needs nothing
+// else; React stays external so the React wrapper uses the host app's copy.
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    }
+  },
+  build: {
+    outDir: 'dist/core',
+    emptyOutDir: true,
+    lib: {
+      entry: {
+        core: path.resolve(__dirname, 'core.ts'),
+        element: path.resolve(__dirname, 'element.ts'),
+        react: path.resolve(__dirname, 'react.tsx')
+      },
+      formats: ['es']
+    },
+    rollupOptions: {
+      external: ['react', 'react-dom', 'react/jsx-runtime']
+    }
+  }
+});